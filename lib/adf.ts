@@ -0,0 +1,601 @@
+/**
+ * Atlassian Document Format (ADF) conversion helpers
+ */
+
+import { AdfDocument, AdfMark, AdfNode } from './types';
+
+/**
+ * Check whether a value looks like an ADF document
+ */
+export function isAdfDocument(value: unknown): value is AdfDocument {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as AdfNode).type === 'doc' &&
+    Array.isArray((value as AdfNode).content)
+  );
+}
+
+/**
+ * Convert an ADF document (or node) to Markdown
+ * Handles headings, lists, task lists, tables, panels, code blocks, quotes,
+ * smart links, mentions, emoji, status lozenges and dates
+ * @param node - ADF document or node
+ * @returns Markdown text
+ */
+export function adfToMarkdown(node: AdfNode): string {
+  return renderBlocks(node.content || [], '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderBlocks(nodes: AdfNode[], indent: string): string {
+  return nodes
+    .map((node) => renderBlock(node, indent))
+    .filter((block) => block !== '')
+    .join('\n\n');
+}
+
+function renderBlock(node: AdfNode, indent: string): string {
+  const children = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return indent + renderInline(children);
+
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `${indent}${'#'.repeat(level)} ${renderInline(children)}`;
+    }
+
+    case 'bulletList':
+      return renderList(children, indent, () => '- ');
+
+    case 'orderedList': {
+      const start = Number(node.attrs?.order) || 1;
+      return renderList(children, indent, (i) => `${start + i}. `);
+    }
+
+    case 'taskList':
+      return renderList(children, indent, (_, item) =>
+        item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] '
+      );
+
+    case 'decisionList':
+      return renderList(children, indent, () => '- Decision: ');
+
+    case 'codeBlock': {
+      const language = node.attrs?.language || '';
+      const code = children.map((child) => child.text || '').join('');
+      return `${indent}\`\`\`${language}\n${code}\n${indent}\`\`\``;
+    }
+
+    case 'blockquote':
+      return prefixLines(renderBlocks(children, ''), `${indent}> `);
+
+    case 'panel': {
+      const panelType = String(node.attrs?.panelType || 'info').toUpperCase();
+      return prefixLines(`**${panelType}:**\n\n${renderBlocks(children, '')}`, `${indent}> `);
+    }
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? `${indent}**${node.attrs.title}**\n\n` : '';
+      return title + renderBlocks(children, indent);
+    }
+
+    case 'rule':
+      return `${indent}---`;
+
+    case 'table':
+      return renderTable(node, indent);
+
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `${indent}${node.attrs.url}` : '';
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return `${indent}[attachment]`;
+
+    case 'layoutSection':
+    case 'layoutColumn':
+    case 'bodiedExtension':
+      return renderBlocks(children, indent);
+
+    default:
+      // Unknown block: keep any text it carries
+      if (children.length > 0) {
+        return node.content!.some((child) => child.type === 'text')
+          ? indent + renderInline(children)
+          : renderBlocks(children, indent);
+      }
+      return node.text ? indent + node.text : '';
+  }
+}
+
+function renderList(
+  items: AdfNode[],
+  indent: string,
+  bullet: (index: number, item: AdfNode) => string
+): string {
+  return items
+    .map((item, i) => {
+      const marker = bullet(i, item);
+      const childIndent = indent + ' '.repeat(marker.length);
+      const [first, ...rest] = item.content || [];
+
+      // taskItem/decisionItem hold inline content directly
+      if (first && isInline(first)) {
+        const text = renderInline(item.content!.filter(isInline));
+        const nested = item.content!.filter((child) => !isInline(child));
+        return [indent + marker + text, ...nested.map((child) => renderBlock(child, childIndent))]
+          .join('\n');
+      }
+
+      const head = first ? renderBlock(first, '').split('\n') : [''];
+      const lines = [
+        indent + marker + head[0],
+        ...head.slice(1).map((line) => childIndent + line),
+        ...rest.map((child) => renderBlock(child, childIndent)),
+      ];
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+function renderTable(node: AdfNode, indent: string): string {
+  const rows = (node.content || []).map((row) =>
+    (row.content || []).map((cell) =>
+      renderBlocks(cell.content || [], '').replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const line = (row: string[]) => `${indent}| ${pad(row).join(' | ')} |`;
+
+  return [
+    line(rows[0]),
+    `${indent}|${' --- |'.repeat(width)}`,
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+function renderInline(nodes: AdfNode[]): string {
+  return nodes.map(renderInlineNode).join('');
+}
+
+function renderInlineNode(node: AdfNode): string {
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text || '', node.marks || []);
+    case 'hardBreak':
+      return '\n';
+    case 'inlineCard':
+      return node.attrs?.url || '';
+    case 'mention':
+      return node.attrs?.text
+        ? String(node.attrs.text).startsWith('@') ? node.attrs.text : `@${node.attrs.text}`
+        : `@${node.attrs?.id || 'user'}`;
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+    case 'status':
+      return `[${node.attrs?.text || ''}]`;
+    case 'date': {
+      const timestamp = Number(node.attrs?.timestamp);
+      return Number.isFinite(timestamp) ? new Date(timestamp).toISOString().slice(0, 10) : '';
+    }
+    case 'inlineExtension':
+      return node.attrs?.text || '';
+    default:
+      return node.text || renderInline(node.content || []);
+  }
+}
+
+function applyMarks(text: string, marks: AdfMark[]): string {
+  let result = text;
+  const link = marks.find((mark) => mark.type === 'link');
+
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'code':
+        result = `\`${result}\``;
+        break;
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `*${result}*`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+    }
+  }
+
+  if (link?.attrs?.href) {
+    result = text === link.attrs.href ? link.attrs.href : `[${result}](${link.attrs.href})`;
+  }
+
+  return result;
+}
+
+function isInline(node: AdfNode): boolean {
+  return [
+    'text',
+    'hardBreak',
+    'inlineCard',
+    'mention',
+    'emoji',
+    'status',
+    'date',
+    'inlineExtension',
+  ].includes(node.type);
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? prefix + line : prefix.trimEnd()))
+    .join('\n');
+}
+
+// Markdown block patterns
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const BOLD_LINE = /^\*\*[^*]+\*\*$/;
+
+// Block types Jira accepts inside a listItem
+const LIST_ITEM_BLOCKS = ['paragraph', 'bulletList', 'orderedList', 'taskList', 'codeBlock'];
+
+/**
+ * Convert Markdown text to an ADF document
+ * Supports headings (# and whole-line **bold**), nested bullet/ordered lists,
+ * task lists, tables, blockquotes, horizontal rules, fenced code and
+ * inline bold/italic/strike/code/links
+ * @param markdown - Markdown text
+ * @returns ADF document
+ */
+export function markdownToADF(markdown: string): AdfDocument {
+  const content = parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+  return {
+    type: 'doc',
+    version: 1,
+    content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
+  };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Skip empty lines
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    // Fenced code blocks
+    const fence = line.match(FENCE);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip closing fence
+      const code = codeLines.join('\n');
+      blocks.push({
+        type: 'codeBlock',
+        attrs: { language: fence[2] || 'plaintext' },
+        content: code ? [{ type: 'text', text: code }] : [],
+      });
+      continue;
+    }
+
+    // Horizontal rules (checked before lists so "* * *" is not a bullet)
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // # Headings
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        content: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    // Bold line acting as header
+    if (BOLD_LINE.test(line.trim()) && !line.includes(':**')) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: 3 },
+        content: parseInline(line.trim().slice(2, -2).trim()),
+      });
+      i++;
+      continue;
+    }
+
+    // Tables: header row followed by a separator row
+    if (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows: string[][] = [splitTableRow(line)];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push(buildTable(rows));
+      continue;
+    }
+
+    // Blockquotes
+    if (QUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoteLines.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({
+        type: 'blockquote',
+        content: toQuoteContent(parseBlocks(quoteLines)),
+      });
+      continue;
+    }
+
+    // Bullet, ordered and task lists
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    // Regular paragraph: consecutive lines joined with hard breaks
+    const paragraphLines: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines, i)) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({
+      type: 'paragraph',
+      content: paragraphLines.flatMap((text, index) =>
+        index === 0 ? parseInline(text) : [{ type: 'hardBreak' }, ...parseInline(text)]
+      ),
+    });
+  }
+
+  return blocks;
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    RULE.test(line) ||
+    HEADING.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    (BOLD_LINE.test(line.trim()) && !line.includes(':**')) ||
+    (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]))
+  );
+}
+
+type ListKind = 'bulletList' | 'orderedList' | 'taskList';
+
+/**
+ * Parse a list starting at line `start`, appending it to `blocks`
+ * Items are grouped by the indentation of the first marker; deeper-indented
+ * lines belong to the previous item and are parsed recursively
+ * @returns Index of the first line after the list
+ */
+function parseList(lines: string[], start: number, blocks: AdfNode[]): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const kind = listKind(first[2], first[3]);
+  const items: AdfNode[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || match[1].length !== indent || listKind(match[2], match[3]) !== kind) {
+      break;
+    }
+
+    // Collect continuation lines (indented deeper, possibly separated by blanks)
+    const childLines: string[] = [];
+    i++;
+    while (i < lines.length) {
+      const next = lines[i];
+      const nextIndent = next.length - next.trimStart().length;
+      if (next.trim() === '') {
+        const following = lines.slice(i + 1).find((l) => l.trim() !== '');
+        if (!following || following.length - following.trimStart().length <= indent) break;
+        childLines.push('');
+      } else if (nextIndent > indent) {
+        childLines.push(next.slice(Math.min(nextIndent, indent + match[2].length + 1)));
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    items.push(...buildListItem(kind, match[3], parseBlocks(childLines)));
+  }
+
+  if (kind === 'orderedList') {
+    const order = parseInt(first[2], 10);
+    blocks.push({ type: kind, attrs: { order: order > 0 ? order : 1 }, content: items });
+  } else if (kind === 'taskList') {
+    blocks.push({ type: kind, attrs: { localId: crypto.randomUUID() }, content: items });
+  } else {
+    blocks.push({ type: kind, content: items });
+  }
+
+  return i;
+}
+
+function listKind(marker: string, text: string): ListKind {
+  if (/^\d/.test(marker)) return 'orderedList';
+  return TASK.test(text) ? 'taskList' : 'bulletList';
+}
+
+function buildListItem(kind: ListKind, text: string, children: AdfNode[]): AdfNode[] {
+  if (kind === 'taskList') {
+    const task = text.match(TASK)!;
+    const item: AdfNode = {
+      type: 'taskItem',
+      attrs: { localId: crypto.randomUUID(), state: task[1] === ' ' ? 'TODO' : 'DONE' },
+      content: parseInline(task[2]),
+    };
+    // Nested task lists sit next to their parent item; other nested text is appended inline
+    const nestedTasks = children.filter((child) => child.type === 'taskList');
+    for (const child of children.filter((c) => c.type !== 'taskList')) {
+      item.content!.push({ type: 'hardBreak' }, ...inlineContent(child));
+    }
+    return [item, ...nestedTasks];
+  }
+
+  return [{
+    type: 'listItem',
+    content: [
+      { type: 'paragraph', content: parseInline(text) },
+      ...children.flatMap(toListItemContent),
+    ],
+  }];
+}
+
+function toListItemContent(node: AdfNode): AdfNode[] {
+  if (LIST_ITEM_BLOCKS.includes(node.type)) return [node];
+  if (node.type === 'rule') return [];
+  if (node.type === 'blockquote') return node.content!.flatMap(toListItemContent);
+  return [{ type: 'paragraph', content: inlineContent(node) }];
+}
+
+function toQuoteContent(nodes: AdfNode[]): AdfNode[] {
+  const content = nodes.flatMap((node) => {
+    if (['paragraph', 'bulletList', 'orderedList', 'codeBlock'].includes(node.type)) return [node];
+    if (node.type === 'rule') return [];
+    if (node.type === 'blockquote') return toQuoteContent(node.content || []);
+    if (node.type === 'heading') {
+      return [{ type: 'paragraph', content: addMark(node.content || [], { type: 'strong' }) }];
+    }
+    return [{ type: 'paragraph', content: inlineContent(node) }];
+  });
+  return content.length > 0 ? content : [{ type: 'paragraph', content: [] }];
+}
+
+/**
+ * Flatten a block node to its inline content (used where blocks are not allowed)
+ */
+function inlineContent(node: AdfNode): AdfNode[] {
+  if (node.type === 'text' || node.type === 'hardBreak') return [node];
+  if (node.type === 'codeBlock') {
+    return (node.content || []).map((child) => ({ ...child, marks: [{ type: 'code' }] }));
+  }
+  const parts = (node.content || []).map(inlineContent).filter((part) => part.length > 0);
+  return parts.flatMap((part, i) => (i === 0 ? part : [{ type: 'text', text: ' ' }, ...part]));
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function buildTable(rows: string[][]): AdfNode {
+  const width = Math.max(...rows.map((row) => row.length));
+  const cell = (type: string, text: string): AdfNode => ({
+    type,
+    content: [{ type: 'paragraph', content: parseInline(text) }],
+  });
+
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: rows.map((row, rowIndex) => ({
+      type: 'tableRow',
+      content: Array.from({ length: width }, (_, i) =>
+        cell(rowIndex === 0 ? 'tableHeader' : 'tableCell', row[i] || '')
+      ),
+    })),
+  };
+}
+
+// Inline patterns, in priority order: code, [text](url), <url>, **bold**, __bold__,
+// ~~strike~~, *italic*, _italic_, bare URL
+const INLINE_PATTERN =
+  /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/g;
+
+/**
+ * Parse inline formatting (bold, italic, strike, code, links)
+ */
+function parseInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+  const result: AdfNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index! > last) {
+      result.push(textWithMarks(text.slice(last, match.index), marks));
+    }
+    last = match.index! + match[0].length;
+
+    const [, code, linkText, linkUrl, autoLink, bold, boldAlt, strike, italic, italicAlt, bareUrl] = match;
+    if (code !== undefined) {
+      // The code mark may only be combined with link marks
+      result.push(textWithMarks(code, [...marks.filter((mark) => mark.type === 'link'), { type: 'code' }]));
+    } else if (linkText !== undefined) {
+      result.push(...parseInline(linkText, [...marks, linkMark(linkUrl)]));
+    } else if (autoLink !== undefined || bareUrl !== undefined) {
+      const url = autoLink ?? bareUrl;
+      result.push(textWithMarks(url, [...marks, linkMark(url)]));
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      result.push(...parseInline(bold ?? boldAlt, [...marks, { type: 'strong' }]));
+    } else if (strike !== undefined) {
+      result.push(...parseInline(strike, [...marks, { type: 'strike' }]));
+    } else {
+      result.push(...parseInline(italic ?? italicAlt, [...marks, { type: 'em' }]));
+    }
+  }
+
+  if (last < text.length) {
+    result.push(textWithMarks(text.slice(last), marks));
+  }
+
+  return result;
+}
+
+function textWithMarks(text: string, marks: AdfMark[]): AdfNode {
+  return marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+function linkMark(href: string): AdfMark {
+  return { type: 'link', attrs: { href } };
+}
+
+function addMark(nodes: AdfNode[], mark: AdfMark): AdfNode[] {
+  return nodes.map((node) => {
+    if (node.type !== 'text' || node.marks?.some((m) => m.type === 'code')) return node;
+    return { ...node, marks: [...(node.marks || []), mark] };
+  });
+}
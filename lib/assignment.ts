@@ -0,0 +1,167 @@
+/**
+ * Assignee and team routing for created subtasks
+ * Rules map subtask type and story component to a team and an assignee
+ * strategy: a fixed person, round-robin over a list or Jira group, or the
+ * member with the fewest open subtasks (counted through JQL)
+ */
+
+import { AssignmentRule, StoryContext, SubtaskAssignment, SubtaskType } from './types';
+import { countIssues, getGroupMembers, TenantContext } from './jira';
+import { parseSubtaskType } from './registry';
+import { resolveField } from './fields';
+import { scopeKey } from './tenants';
+import { Logger, logger } from './logger';
+
+interface Env extends TenantContext {
+  ASSIGNMENT_RULES?: string;
+  TEAM_FIELD?: string;
+}
+
+const DEFAULT_TEAM_FIELD = 'Team';
+
+const ROUND_ROBIN_PREFIX = 'assignment-rr:';
+
+/**
+ * Load assignment rules from ASSIGNMENT_RULES (JSON array; none by default)
+ * @param env - Environment variables
+ * @returns Ordered assignment rules
+ */
+export function getAssignmentRules(env: Env): AssignmentRule[] {
+  if (!env.ASSIGNMENT_RULES) {
+    return [];
+  }
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(env.ASSIGNMENT_RULES);
+  } catch {
+    throw new Error('ASSIGNMENT_RULES is not valid JSON');
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('ASSIGNMENT_RULES must be a JSON array');
+  }
+  return rules as AssignmentRule[];
+}
+
+/**
+ * Pick the team and assignee for a new subtask
+ * Rules are evaluated in order and the first match wins; a rule without
+ * conditions matches every subtask
+ * @param type - Subtask type
+ * @param context - Story context
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Assignment, or null when no rule matches
+ */
+export async function assignSubtask(
+  type: SubtaskType,
+  context: StoryContext,
+  env: Env,
+  log: Logger = logger
+): Promise<SubtaskAssignment | null> {
+  const rule = getAssignmentRules(env).find((candidate) => ruleMatches(candidate, type, context));
+  if (!rule) {
+    return null;
+  }
+
+  const assignment: SubtaskAssignment = { rule: rule.name };
+  if (rule.team !== undefined) {
+    assignment.team = rule.team;
+  }
+  if (rule.assignee) {
+    assignment.strategy = rule.assignee.strategy;
+    assignment.assigneeAccountId = await pickAssignee(rule, env, log);
+  }
+  return assignment;
+}
+
+/**
+ * Describe the assignment a subtask would get without picking from a pool
+ * (no round-robin turn is used and no JQL is run); fixed assignees are included
+ * @param type - Subtask type
+ * @param context - Story context
+ * @param env - Environment variables
+ * @returns Planned assignment, or null when no rule matches
+ */
+export function planAssignment(type: SubtaskType, context: StoryContext, env: Env): SubtaskAssignment | null {
+  const rule = getAssignmentRules(env).find((candidate) => ruleMatches(candidate, type, context));
+  if (!rule) {
+    return null;
+  }
+  return {
+    rule: rule.name,
+    ...(rule.team !== undefined && { team: rule.team }),
+    ...(rule.assignee && { strategy: rule.assignee.strategy }),
+    ...(rule.assignee?.strategy === 'fixed' && { assigneeAccountId: rule.assignee.accountId }),
+  };
+}
+
+/**
+ * Fields createSubtask sets for an assignment (the team field; the assignee is set separately)
+ * @param assignment - Assignment from assignSubtask
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Team field ID to value, or empty when the assignment has no team
+ */
+export async function getAssignmentFields(
+  assignment: SubtaskAssignment | null,
+  env: Env,
+  log: Logger = logger
+): Promise<Record<string, unknown>> {
+  if (assignment?.team === undefined) {
+    return {};
+  }
+
+  const fieldName = env.TEAM_FIELD || DEFAULT_TEAM_FIELD;
+  const field = await resolveField(fieldName, env, log);
+  if (!field) {
+    throw new Error(`Team field "${fieldName}" not found in Jira`);
+  }
+  return { [field.id]: assignment.team };
+}
+
+function ruleMatches(rule: AssignmentRule, type: SubtaskType, context: StoryContext): boolean {
+  const { when } = rule;
+  if (when?.types && !when.types.some((value) => parseSubtaskType(value) === type)) {
+    return false;
+  }
+  if (when?.components) {
+    const components = context.components.map((component) => component.toLowerCase());
+    if (!when.components.some((component) => components.includes(component.toLowerCase()))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function pickAssignee(rule: AssignmentRule, env: Env, log: Logger): Promise<string | undefined> {
+  const assignee = rule.assignee!;
+  if (assignee.strategy === 'fixed') {
+    return assignee.accountId;
+  }
+
+  const candidates = assignee.group
+    ? await getGroupMembers(assignee.group, env, log)
+    : assignee.accountIds || [];
+  if (candidates.length === 0) {
+    log.warn(`Assignment rule "${rule.name}" has no candidates`, { group: assignee.group });
+    return undefined;
+  }
+
+  if (assignee.strategy === 'round-robin') {
+    // Best effort: concurrent runs may occasionally pick the same person
+    const key = scopeKey(ROUND_ROBIN_PREFIX + rule.name, env);
+    const next = Number(await env.STATE.get(key)) || 0;
+    await env.STATE.put(key, String(next + 1));
+    return candidates[next % candidates.length];
+  }
+
+  // least-loaded: fewest unresolved subtasks assigned
+  const loads = await Promise.all(
+    candidates.map((accountId) =>
+      countIssues(`assignee = "${accountId}" AND issuetype in subTaskIssueTypes() AND statusCategory != Done`, env, log)
+    )
+  );
+  const lowest = Math.min(...loads);
+  return candidates[loads.indexOf(lowest)];
+}
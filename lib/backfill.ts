@@ -0,0 +1,262 @@
+/**
+ * Bulk backfill: run the subtask pipeline for every story matching a JQL query
+ * Pages are fetched one queue message at a time and stories are queued with
+ * staggered delays, so a backfill never exceeds BACKFILL_STORIES_PER_MINUTE.
+ * Run state and per-issue progress live in Workers KV, so a paused or failed
+ * backfill resumes from the last fetched page.
+ */
+
+import {
+  BackfillIssueProgress,
+  BackfillPageJob,
+  BackfillRun,
+  Env,
+  QueueJob,
+  StoryJob,
+} from './types';
+import { getExistingSubtaskTypes, searchIssues } from './jira';
+import { extractIssueContext } from './story';
+import { routeStory } from './routing';
+import { getInputFieldIds } from './fields';
+import { Logger, logger } from './logger';
+
+const RUN_PREFIX = 'backfill:';
+const ISSUE_PREFIX = 'backfill-issue:';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const DEFAULT_STORIES_PER_MINUTE = 6;
+
+// Navigable fields include the custom fields mapped as story inputs
+const SEARCH_FIELDS = ['*navigable'];
+
+/**
+ * Check whether a queue message is a backfill page (rather than a story job)
+ */
+export function isBackfillPageJob(job: QueueJob): job is BackfillPageJob {
+  return 'type' in job && job.type === 'backfill-page';
+}
+
+/**
+ * Start a backfill and queue its first page
+ * @param jql - JQL query selecting the stories
+ * @param env - Environment variables (tenant-scoped to backfill a tenant's site)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns New backfill run
+ */
+export async function startBackfill(jql: string, env: Env, log: Logger = logger): Promise<BackfillRun> {
+  const now = new Date().toISOString();
+  const run: BackfillRun = {
+    id: crypto.randomUUID(),
+    ...(env.TENANT_ID && { tenant: env.TENANT_ID }),
+    jql,
+    status: 'running',
+    pages: 0,
+    queued: 0,
+    skipped: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveRun(run, env);
+  await env.SUBTASK_QUEUE.send({ type: 'backfill-page', backfillId: run.id, page: 0, tenant: run.tenant });
+
+  log.info(`Started backfill ${run.id}`, { backfillId: run.id, jql });
+  return run;
+}
+
+/**
+ * Get a backfill run
+ * @param id - Backfill ID
+ * @param env - Environment variables
+ * @returns Backfill run or null if not found
+ */
+export async function getBackfill(id: string, env: Env): Promise<BackfillRun | null> {
+  return env.STATE.get<BackfillRun>(RUN_PREFIX + id, 'json');
+}
+
+/**
+ * List per-issue progress of a backfill
+ * @param id - Backfill ID
+ * @param env - Environment variables
+ * @param cursor - Pagination cursor from a previous call
+ * @returns Issue progress and the next cursor, if any
+ */
+export async function listBackfillIssues(
+  id: string,
+  env: Env,
+  cursor?: string
+): Promise<{ items: BackfillIssueProgress[]; cursor?: string }> {
+  const result = await env.STATE.list<BackfillIssueProgress>({ prefix: `${ISSUE_PREFIX}${id}:`, cursor, limit: 1000 });
+  return {
+    items: result.keys.flatMap((key) => (key.metadata ? [key.metadata] : [])),
+    cursor: result.list_complete ? undefined : result.cursor,
+  };
+}
+
+/**
+ * Pause a running backfill; stories already queued still run
+ * @param id - Backfill ID
+ * @param env - Environment variables
+ * @returns Updated run or null if not found
+ */
+export async function pauseBackfill(id: string, env: Env): Promise<BackfillRun | null> {
+  const run = await getBackfill(id, env);
+  if (!run || run.status !== 'running') {
+    return run;
+  }
+  return saveRun({ ...run, status: 'paused' }, env);
+}
+
+/**
+ * Resume a paused or failed backfill from its next page
+ * @param id - Backfill ID
+ * @param env - Environment variables
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Updated run or null if not found
+ */
+export async function resumeBackfill(id: string, env: Env, log: Logger = logger): Promise<BackfillRun | null> {
+  const run = await getBackfill(id, env);
+  if (!run || (run.status !== 'paused' && run.status !== 'failed')) {
+    return run;
+  }
+  const resumed = await saveRun({ ...run, status: 'running', error: undefined }, env);
+  await env.SUBTASK_QUEUE.send({ type: 'backfill-page', backfillId: id, page: run.pages, tenant: run.tenant });
+
+  log.info(`Resumed backfill ${id} at page ${run.pages}`, { backfillId: id, page: run.pages });
+  return resumed;
+}
+
+/**
+ * Mark a backfill failed after its page job exhausted its retries
+ * @param id - Backfill ID
+ * @param error - Last error
+ * @param env - Environment variables
+ */
+export async function failBackfill(id: string, error: unknown, env: Env): Promise<void> {
+  const run = await getBackfill(id, env);
+  if (!run) {
+    return;
+  }
+  await saveRun({ ...run, status: 'failed', error: error instanceof Error ? error.message : String(error) }, env);
+}
+
+/**
+ * Fetch one page of the backfill's JQL, skip stories that already have their
+ * generated subtasks, queue the rest and schedule the next page
+ * Stale or duplicate page messages (paused run, page already fetched) are dropped
+ * @param job - Backfill page job
+ * @param env - Environment variables
+ * @param log - Logger carrying the backfill's correlation ID
+ */
+export async function runBackfillPage(job: BackfillPageJob, env: Env, log: Logger = logger): Promise<void> {
+  const run = await getBackfill(job.backfillId, env);
+  if (!run || run.status !== 'running' || run.pages !== job.page) {
+    log.info(`Dropped backfill page ${job.page} for ${job.backfillId}`);
+    return;
+  }
+
+  const pageSize = Math.min(Number(env.BACKFILL_PAGE_SIZE) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const intervalSeconds = Math.ceil(60 / (Number(env.BACKFILL_STORIES_PER_MINUTE) || DEFAULT_STORIES_PER_MINUTE));
+
+  const page = await searchIssues(run.jql, {
+    fields: SEARCH_FIELDS,
+    maxResults: pageSize,
+    nextPageToken: run.nextPageToken,
+  }, env, log);
+
+  const jobs: StoryJob[] = [];
+  let skipped = 0;
+
+  for (const issue of page.issues) {
+    // Same filter as the webhook: only Stories get subtasks
+    const issueType = issue.fields.issuetype.name;
+    if (issueType !== 'Story') {
+      await recordBackfillProgress(run.id, issue.key, 'skipped', `Ignored - not a Story (${issueType})`, env);
+      skipped++;
+      continue;
+    }
+
+    const context = extractIssueContext(issue, await getInputFieldIds(issue.key, env, log));
+    const { types } = routeStory(context, env);
+    const existing = await getExistingSubtaskTypes(issue.key, types, env, log);
+    if (types.every((type) => existing.has(type))) {
+      const message = types.length === 0 ? 'Ignored - no subtasks selected' : 'Subtasks already exist';
+      await recordBackfillProgress(run.id, issue.key, 'skipped', message, env);
+      skipped++;
+      continue;
+    }
+
+    jobs.push({
+      id: crypto.randomUUID(),
+      issueKey: issue.key,
+      trigger: `backfill:${run.id}`,
+      deliveryId: run.id,
+      context,
+      backfillId: run.id,
+      correlationId: run.id,
+      tenant: run.tenant,
+      receivedAt: new Date().toISOString(),
+    });
+  }
+
+  // Stagger stories so at most one starts per interval
+  if (jobs.length > 0) {
+    await env.SUBTASK_QUEUE.sendBatch(jobs.map((body, i) => ({ body, delaySeconds: i * intervalSeconds })));
+    for (const story of jobs) {
+      await recordBackfillProgress(run.id, story.issueKey, 'queued', undefined, env);
+    }
+  }
+
+  const done = !page.nextPageToken;
+  await saveRun({
+    ...run,
+    status: done ? 'completed' : 'running',
+    pages: run.pages + 1,
+    nextPageToken: page.nextPageToken,
+    queued: run.queued + jobs.length,
+    skipped: run.skipped + skipped,
+  }, env);
+
+  if (!done) {
+    await env.SUBTASK_QUEUE.send(
+      { type: 'backfill-page', backfillId: run.id, page: run.pages + 1, tenant: run.tenant },
+      { delaySeconds: jobs.length * intervalSeconds }
+    );
+  }
+  log.info(`Backfill ${run.id} page ${run.pages}: ${jobs.length} queued, ${skipped} skipped${done ? ', done' : ''}`, {
+    queued: jobs.length,
+    skipped,
+    done,
+  });
+}
+
+/**
+ * Record the progress of one story in a backfill
+ * @param id - Backfill ID
+ * @param issueKey - Story key
+ * @param status - Story status
+ * @param message - Pipeline outcome or error
+ * @param env - Environment variables
+ */
+export async function recordBackfillProgress(
+  id: string,
+  issueKey: string,
+  status: BackfillIssueProgress['status'],
+  message: string | undefined,
+  env: Env
+): Promise<void> {
+  const progress: BackfillIssueProgress = {
+    issueKey,
+    status,
+    message: message?.slice(0, 200),
+    updatedAt: new Date().toISOString(),
+  };
+  // Progress is kept in metadata so listing needs no extra reads
+  await env.STATE.put(`${ISSUE_PREFIX}${id}:${issueKey}`, '', { metadata: progress });
+}
+
+async function saveRun(run: BackfillRun, env: Env): Promise<BackfillRun> {
+  const updated = { ...run, updatedAt: new Date().toISOString() };
+  await env.STATE.put(RUN_PREFIX + run.id, JSON.stringify(updated));
+  return updated;
+}
@@ -0,0 +1,200 @@
+/**
+ * Comment-driven commands on stories ("/board-helper regenerate backend", ...)
+ */
+
+import { Env, LoadedStoryJob, PipelineResult, StoryCommand, StoryContext, SubtaskType } from './types';
+import {
+  addComment,
+  addLabels,
+  createSubtask,
+  getExistingSubtaskTypes,
+  getUserGroups,
+  updateIssueDescription,
+} from './jira';
+import { generateDescription } from './gemini';
+import { Logger, logger } from './logger';
+import { getSubtaskTypeConfig, parseSubtaskType, SUBTASK_TYPES } from './registry';
+import { getSkipLabel, routeStory } from './routing';
+import { getRecordedEndpoint, recordStorySnapshot } from './drift';
+import { buildOutputFields } from './fields';
+import { getEstimateComment, getEstimateFields } from './estimate';
+import { assignSubtask, getAssignmentFields } from './assignment';
+import { toRunGeneration } from './runs';
+import { isHandoffEnabled, linkHandoff } from './handoff';
+
+const COMMAND_PREFIX = '/board-helper';
+
+const USAGE = `Usage: ${COMMAND_PREFIX} regenerate <type> | add <type> | skip <type> | explain | help
+Types: ${Object.values(SUBTASK_TYPES).map((config) => config.idempotencyLabel).join(', ')}`;
+
+/**
+ * Parse the first "/board-helper ..." line of a comment
+ * @param text - Comment text (Markdown)
+ * @returns Parsed action and type ("help" with an error for malformed commands), or null when the comment has no command
+ */
+export function parseCommand(
+  text: string
+): Pick<StoryCommand, 'action' | 'subtaskType' | 'error'> | null {
+  const line = text
+    .split('\n')
+    .map((l) => l.trim())
+    .find((l) => l.toLowerCase().startsWith(COMMAND_PREFIX));
+  if (!line) {
+    return null;
+  }
+
+  const [action, typeName] = line.slice(COMMAND_PREFIX.length).trim().toLowerCase().split(/\s+/);
+
+  if (action === 'explain' || action === 'help') {
+    return { action };
+  }
+  if (action !== 'regenerate' && action !== 'add' && action !== 'skip') {
+    return { action: 'help', error: `Unknown command "${action || ''}".` };
+  }
+
+  const subtaskType = typeName ? parseSubtaskType(typeName) : undefined;
+  if (!subtaskType) {
+    return { action: 'help', error: `Unknown or missing subtask type "${typeName || ''}".` };
+  }
+  return { action, subtaskType };
+}
+
+/**
+ * Run a comment command for a story and reply with the result
+ * @param job - Story job carrying the command
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Command outcome
+ */
+export async function runCommand(job: LoadedStoryJob, env: Env, log: Logger = logger): Promise<PipelineResult> {
+  const command = job.command!;
+  const { issueKey } = job;
+
+  if (!(await isPermitted(command.authorAccountId, env, log))) {
+    await reply(issueKey, command, 'You are not allowed to run board-helper commands.', env, log);
+    return { message: `Rejected - ${command.authorAccountId} not permitted`, story: issueKey };
+  }
+
+  const result = await executeCommand(job, command, env, log);
+  await reply(issueKey, command, result.message, env, log);
+  return result;
+}
+
+async function executeCommand(job: LoadedStoryJob, command: StoryCommand, env: Env, log: Logger): Promise<PipelineResult> {
+  const { issueKey, context } = job;
+
+  if (command.action === 'help') {
+    return { message: command.error ? `${command.error}\n${USAGE}` : USAGE, story: issueKey };
+  }
+
+  if (command.action === 'explain') {
+    const routing = routeStory(context, env);
+    const existing = await getExistingSubtaskTypes(issueKey, Object.values(SUBTASK_TYPES).map((c) => c.type), env, log);
+    const lines = [
+      `Routing rule: ${routing.rule ?? 'none (defaults)'}`,
+      `Selected types: ${routing.types.join(', ') || 'none'}`,
+      `Existing subtasks: ${[...existing].map(([type, key]) => `${type} ${key}`).join(', ') || 'none'}`,
+      `Would create: ${routing.types.filter((type) => !existing.has(type)).join(', ') || 'nothing'}`,
+    ];
+    return { message: lines.join('\n'), story: issueKey, routing };
+  }
+
+  const config = getSubtaskTypeConfig(command.subtaskType!);
+
+  if (command.action === 'skip') {
+    await addLabels(issueKey, [getSkipLabel(config.type)], env, log);
+    return { message: `${config.type} subtasks will no longer be generated for ${issueKey}.`, story: issueKey };
+  }
+
+  const existing = await getExistingSubtaskTypes(issueKey, [config.type], env, log);
+  const existingKey = existing.get(config.type);
+
+  if (command.action === 'regenerate') {
+    if (!existingKey) {
+      return { message: `No ${config.type} subtask to regenerate. Use "${COMMAND_PREFIX} add ${config.idempotencyLabel}".`, story: issueKey };
+    }
+    const description = await generateDescription(config, await withBackendHandoff(config.type, context, env, log), env, log);
+    await updateIssueDescription(existingKey, description.document, env, log);
+    await recordStorySnapshot(context, [
+      { type: config.type, key: existingKey, document: description.document, endpoint: description.spec.endpoint },
+    ], env);
+    return {
+      message: `Regenerated ${config.type} subtask ${existingKey}.`,
+      story: issueKey,
+      subtasks: [{ type: config.type, key: existingKey }],
+      generations: [toRunGeneration(config.type, description)],
+    };
+  }
+
+  // add
+  if (existingKey) {
+    return { message: `${config.type} subtask already exists: ${existingKey}.`, story: issueKey };
+  }
+  const generationContext = await withBackendHandoff(config.type, context, env, log);
+  const description = await generateDescription(config, generationContext, env, log);
+  const assignment = await assignSubtask(config.type, context, env, log);
+  const subtask = await createSubtask(issueKey, {
+    summary: `${config.summaryPrefix} ${context.summary}`,
+    description: description.document,
+    subtaskType: config.type,
+    labels: config.labels,
+    assigneeAccountId: assignment?.assigneeAccountId,
+    fields: {
+      ...(await buildOutputFields(context, env, log)),
+      ...(await getEstimateFields(description.spec.estimate, env, log)),
+      ...(await getAssignmentFields(assignment, env, log)),
+    },
+  }, env, log);
+  const estimateComment = getEstimateComment(description.spec.estimate, env);
+  if (estimateComment) {
+    await addComment(subtask.key, estimateComment, env, log);
+  }
+  if (generationContext.handoff?.key) {
+    await linkHandoff(generationContext.handoff.key, subtask.key, env, log);
+  }
+  await recordStorySnapshot(context, [
+    { type: config.type, key: subtask.key, document: description.document, endpoint: description.spec.endpoint },
+  ], env);
+  return {
+    message: `Created ${config.type} subtask ${subtask.key}.`,
+    story: issueKey,
+    subtasks: [{ type: config.type, key: subtask.key, ...(assignment && { assignment }) }],
+    generations: [toRunGeneration(config.type, description)],
+  };
+}
+
+/**
+ * With the backend handoff, a frontend regenerated or added on its own is
+ * generated from the existing backend subtask's recorded contract
+ */
+async function withBackendHandoff(type: SubtaskType, context: StoryContext, env: Env, log: Logger): Promise<StoryContext> {
+  if (type !== SubtaskType.FRONTEND || !isHandoffEnabled(env)) {
+    return context;
+  }
+  const backendKey = (await getExistingSubtaskTypes(context.key, [SubtaskType.BACKEND], env, log)).get(SubtaskType.BACKEND);
+  return backendKey
+    ? { ...context, handoff: { key: backendKey, endpoint: await getRecordedEndpoint(context.key, env) } }
+    : context;
+}
+
+/**
+ * Check the comment author against COMMAND_GROUPS (comma-separated Jira group names)
+ * Commands are disabled when no groups are configured
+ */
+async function isPermitted(accountId: string, env: Env, log: Logger): Promise<boolean> {
+  const allowed = (env.COMMAND_GROUPS || '')
+    .split(',')
+    .map((group) => group.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowed.length === 0) {
+    return false;
+  }
+
+  const groups = await getUserGroups(accountId, env, log);
+  return groups.some((group) => allowed.includes(group.toLowerCase()));
+}
+
+async function reply(issueKey: string, command: StoryCommand, message: string, env: Env, log: Logger): Promise<void> {
+  const requestedBy = command.authorName ? ` requested by ${command.authorName}` : '';
+  await addComment(issueKey, `**board-helper** \`${command.action}\`${requestedBy}:\n\n${message}`, env, log);
+}
@@ -0,0 +1,67 @@
+/**
+ * Hashing and encryption helpers (Web Crypto API)
+ */
+
+/**
+ * SHA-256 hex digest of a string
+ * @param text - Input text
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Encrypt a string with AES-256-GCM
+ * @param plaintext - Text to encrypt
+ * @param keyBase64 - 32-byte key, base64-encoded (e.g. `openssl rand -base64 32`)
+ * @returns "v1:<iv>:<ciphertext>" with base64 parts
+ */
+export async function encryptString(plaintext: string, keyBase64: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importAesKey(keyBase64),
+    new TextEncoder().encode(plaintext)
+  );
+  return `v1:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a string produced by encryptString
+ * @param encrypted - "v1:<iv>:<ciphertext>"
+ * @param keyBase64 - Key the string was encrypted with
+ * @returns Plaintext
+ * @throws When the format is unknown, the key is wrong or the data was tampered with
+ */
+export async function decryptString(encrypted: string, keyBase64: string): Promise<string> {
+  const [version, iv, ciphertext] = encrypted.split(':');
+  if (version !== 'v1' || !iv || !ciphertext) {
+    throw new Error('Unsupported encrypted value');
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await importAesKey(keyBase64),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function importAesKey(keyBase64: string): Promise<CryptoKey> {
+  const raw = fromBase64(keyBase64);
+  if (raw.length !== 32) {
+    throw new Error('Encryption key must be 32 bytes (base64-encoded)');
+  }
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
@@ -0,0 +1,96 @@
+/**
+ * Dead-letter store for story jobs that exhausted their retries (Workers KV)
+ * Records are kept per tenant, so the admin API only sees the requested site's jobs
+ */
+
+import { DeadLetter, StoryJob } from './types';
+import { Logger, logger } from './logger';
+import { scopeKey } from './tenants';
+
+interface Env {
+  STATE: KVNamespace;
+  TENANT_ID?: string;
+}
+
+const PREFIX = 'dead-letter:';
+
+// Summary kept in KV metadata so listing needs no extra reads
+interface DeadLetterSummary {
+  issueKey: string;
+  error: string;
+  failedAt: string;
+}
+
+/**
+ * Store a failed job under the job's tenant
+ * @param job - Job that failed
+ * @param error - Last error
+ * @param attempts - Number of attempts made
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ */
+export async function recordDeadLetter(
+  job: StoryJob,
+  error: unknown,
+  attempts: number,
+  env: Env,
+  log: Logger = logger
+): Promise<DeadLetter> {
+  const record: DeadLetter = {
+    job,
+    error: error instanceof Error ? error.message : String(error),
+    attempts,
+    failedAt: new Date().toISOString(),
+  };
+  const metadata: DeadLetterSummary = {
+    issueKey: job.issueKey,
+    error: record.error.slice(0, 200),
+    failedAt: record.failedAt,
+  };
+
+  await env.STATE.put(scopeKey(PREFIX + job.id, { TENANT_ID: job.tenant }), JSON.stringify(record), { metadata });
+  log.error(`Dead-lettered job ${job.id} for ${job.issueKey}`, { error: record.error, attempts });
+  return record;
+}
+
+/**
+ * List dead-lettered jobs
+ * @param env - Environment variables (tenant-scoped to list a tenant's jobs)
+ * @param cursor - Pagination cursor from a previous call
+ * @returns Job summaries and the next cursor, if any
+ */
+export async function listDeadLetters(
+  env: Env,
+  cursor?: string
+): Promise<{ items: Array<DeadLetterSummary & { id: string }>; cursor?: string }> {
+  const prefix = scopeKey(PREFIX, env);
+  const result = await env.STATE.list<DeadLetterSummary>({ prefix, cursor, limit: 100 });
+  return {
+    items: result.keys.map((key) => ({
+      id: key.name.slice(prefix.length),
+      issueKey: key.metadata?.issueKey || '',
+      error: key.metadata?.error || '',
+      failedAt: key.metadata?.failedAt || '',
+    })),
+    cursor: result.list_complete ? undefined : result.cursor,
+  };
+}
+
+/**
+ * Get a dead-lettered job
+ * @param id - Job ID
+ * @param env - Environment variables (tenant-scoped for a tenant's jobs)
+ * @returns Dead letter record or null if not found
+ */
+export async function getDeadLetter(id: string, env: Env): Promise<DeadLetter | null> {
+  return env.STATE.get<DeadLetter>(scopeKey(PREFIX + id, env), 'json');
+}
+
+/**
+ * Remove a dead-lettered job (after re-drive or when discarding it)
+ * @param id - Job ID
+ * @param env - Environment variables (tenant-scoped for a tenant's jobs)
+ */
+export async function deleteDeadLetter(id: string, env: Env): Promise<void> {
+  await env.STATE.delete(scopeKey(PREFIX + id, env));
+}
@@ -0,0 +1,280 @@
+/**
+ * Story drift detection: remember the story context subtasks were generated
+ * from, and when the story's description or acceptance criteria change,
+ * tell the subtasks (and optionally regenerate the ones nobody edited)
+ */
+
+import {
+  AdfDocument,
+  Env,
+  LoadedStoryJob,
+  PipelineResult,
+  RunGeneration,
+  StoryContext,
+  StorySnapshot,
+  SubtaskSpec,
+  SubtaskType,
+} from './types';
+import { addComment, getIssue, updateIssueDescription } from './jira';
+import { generateDescription } from './gemini';
+import { Logger, logger } from './logger';
+import { getSubtaskTypeConfig } from './registry';
+import { descriptionToMarkdown } from './story';
+import { sha256Hex } from './crypto';
+import { scopeKey } from './tenants';
+import { toRunGeneration } from './runs';
+import { isHandoffEnabled } from './handoff';
+import { getFieldMapping } from './fields';
+
+const PREFIX = 'story-context:';
+
+// Changelog field for acceptance criteria when the project maps none (FIELD_MAPPINGS inputs.acceptanceCriteria)
+const DEFAULT_CRITERIA_FIELD = 'Acceptance Criteria';
+
+// Diff lines shown per section of the drift comment
+const MAX_DIFF_LINES = 15;
+
+/**
+ * Check whether a webhook changelog touches the description or acceptance criteria
+ * The acceptance criteria field is the project's mapped input field, matched by name or ID
+ * @param items - Changelog items
+ * @param projectKey - Story's project key
+ * @param env - Environment variables
+ */
+export function hasContentChange(
+  items: Array<{ field: string; fieldId?: string }> | undefined,
+  projectKey: string,
+  env: Env
+): boolean {
+  const criteria = (getFieldMapping(projectKey, env).inputs?.acceptanceCriteria || DEFAULT_CRITERIA_FIELD).toLowerCase();
+  return Boolean(items?.some((item) => {
+    const field = item.field.toLowerCase();
+    return field === 'description' || field === criteria || item.fieldId?.toLowerCase() === criteria;
+  }));
+}
+
+/**
+ * Remember the story context and the descriptions written to its subtasks
+ * Subtasks already on record for other types are kept
+ * @param context - Story context the descriptions were generated from
+ * @param subtasks - Subtasks created or regenerated, with the description and endpoint contract written
+ * @param env - Environment variables
+ */
+export async function recordStorySnapshot(
+  context: StoryContext,
+  subtasks: Array<{ type: SubtaskType; key: string; document: AdfDocument; endpoint?: SubtaskSpec['endpoint'] }>,
+  env: Env
+): Promise<void> {
+  if (subtasks.length === 0) {
+    return;
+  }
+
+  const previous = await getStorySnapshot(context.key, env);
+  const snapshot: StorySnapshot = {
+    hash: await hashContext(context),
+    context,
+    subtasks: { ...previous?.subtasks },
+    updatedAt: new Date().toISOString(),
+  };
+  for (const subtask of subtasks) {
+    snapshot.subtasks[subtask.type] = {
+      key: subtask.key,
+      descriptionHash: await hashDescription(subtask.document),
+      ...(subtask.endpoint && { endpoint: subtask.endpoint }),
+    };
+  }
+
+  await env.STATE.put(snapshotKey(context.key, env), JSON.stringify(snapshot));
+}
+
+/**
+ * Get the stored snapshot for a story
+ * @param issueKey - Story key
+ * @param env - Environment variables
+ * @returns Snapshot or null when no subtasks were generated
+ */
+export async function getStorySnapshot(issueKey: string, env: Env): Promise<StorySnapshot | null> {
+  return env.STATE.get<StorySnapshot>(snapshotKey(issueKey, env), 'json');
+}
+
+/**
+ * Endpoint contract recorded when the story's backend subtask was last generated
+ * Lets a frontend generated on its own (backend skipped or created earlier) keep the handoff
+ * @param issueKey - Story key
+ * @param env - Environment variables
+ * @returns Backend endpoint, or null when none is on record
+ */
+export async function getRecordedEndpoint(issueKey: string, env: Env): Promise<SubtaskSpec['endpoint']> {
+  const snapshot = await getStorySnapshot(issueKey, env);
+  return snapshot?.subtasks[SubtaskType.BACKEND]?.endpoint ?? null;
+}
+
+/**
+ * Compare an updated story with the context its subtasks were generated from
+ * and post a diff comment on each subtask
+ * With DRIFT_REGENERATE=true, subtasks whose description still matches what
+ * the bot wrote are regenerated from the updated story; edited ones are only notified
+ * @param job - Story job for the update
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Sync outcome
+ */
+export async function syncStory(job: LoadedStoryJob, env: Env, log: Logger = logger): Promise<PipelineResult> {
+  const { issueKey, context } = job;
+  const snapshot = await getStorySnapshot(issueKey, env);
+  if (!snapshot) {
+    return { message: 'Ignored - no generated subtasks on record', story: issueKey };
+  }
+
+  const hash = await hashContext(context);
+  if (hash === snapshot.hash) {
+    return { message: 'Ignored - story context unchanged', story: issueKey };
+  }
+
+  const diff = summarizeChanges(snapshot.context, context);
+  if (!diff) {
+    // Only fields the subtasks do not depend on changed
+    await env.STATE.put(snapshotKey(issueKey, env), JSON.stringify({ ...snapshot, hash, context }));
+    return { message: 'Ignored - no description or acceptance criteria changes', story: issueKey };
+  }
+
+  const regenerate = env.DRIFT_REGENERATE === 'true';
+  const updated: StorySnapshot = { ...snapshot, hash, context, subtasks: { ...snapshot.subtasks } };
+  const notified: Array<{ type: SubtaskType; key: string }> = [];
+  const regenerated: Array<{ type: SubtaskType; key: string }> = [];
+  const generations: RunGeneration[] = [];
+
+  for (const [type, subtask] of Object.entries(snapshot.subtasks) as Array<[SubtaskType, StorySnapshot['subtasks'][SubtaskType]]>) {
+    if (!subtask) {
+      continue;
+    }
+
+    const current = await getIssue(subtask.key, env, log);
+    const untouched = (await hashDescription(current.fields.description)) === subtask.descriptionHash;
+
+    let note: string;
+    if (regenerate && untouched) {
+      // A regenerated frontend keeps the backend contract (the backend entry is updated first when both are regenerated)
+      const backend = updated.subtasks[SubtaskType.BACKEND];
+      const handoff = type === SubtaskType.FRONTEND && backend && isHandoffEnabled(env)
+        ? { key: backend.key, endpoint: backend.endpoint ?? null }
+        : undefined;
+      const description = await generateDescription(getSubtaskTypeConfig(type), { ...context, handoff }, env, log);
+      await updateIssueDescription(subtask.key, description.document, env, log);
+      updated.subtasks[type] = {
+        key: subtask.key,
+        descriptionHash: await hashDescription(description.document),
+        ...(description.spec.endpoint && { endpoint: description.spec.endpoint }),
+      };
+      regenerated.push({ type, key: subtask.key });
+      generations.push(toRunGeneration(type, description));
+      note = 'The description was regenerated from the updated story.';
+    } else if (regenerate) {
+      note = 'This subtask was edited by hand, so it was not regenerated. Please review it against the story.';
+    } else {
+      note = 'Please review this subtask against the story.';
+    }
+
+    await addComment(subtask.key, `**board-helper**: ${issueKey} changed since this subtask was generated.\n\n${diff}\n\n${note}`, env, log);
+    notified.push({ type, key: subtask.key });
+  }
+
+  await env.STATE.put(snapshotKey(issueKey, env), JSON.stringify({ ...updated, updatedAt: new Date().toISOString() }));
+
+  return {
+    message: `Story changed - ${notified.length} subtask(s) notified, ${regenerated.length} regenerated`,
+    story: issueKey,
+    subtasks: notified,
+    ...(regenerated.length > 0 && { regenerated, generations }),
+  };
+}
+
+/**
+ * Markdown summary of description and acceptance criteria changes, or '' when neither changed
+ * Acceptance criteria found inside the description are covered by the description diff
+ */
+function summarizeChanges(before: StoryContext, after: StoryContext): string {
+  const sections: string[] = [];
+
+  if (before.description !== after.description) {
+    sections.push(formatDiff('Description', before.description, after.description));
+  }
+
+  const criteriaInDescription = !after.acceptanceCriteria || after.description.includes(after.acceptanceCriteria);
+  if ((before.acceptanceCriteria || '') !== (after.acceptanceCriteria || '') && !criteriaInDescription) {
+    sections.push(formatDiff('Acceptance criteria', before.acceptanceCriteria || '', after.acceptanceCriteria || ''));
+  }
+
+  return sections.join('\n\n');
+}
+
+function formatDiff(title: string, before: string, after: string): string {
+  const { removed, added } = diffLines(toLines(before), toLines(after));
+  const list = (lines: string[]) => [
+    ...lines.slice(0, MAX_DIFF_LINES).map((line) => `- ${line}`),
+    ...(lines.length > MAX_DIFF_LINES ? [`- ... and ${lines.length - MAX_DIFF_LINES} more`] : []),
+  ];
+
+  return [
+    `**${title}**`,
+    ...(removed.length > 0 ? ['Removed:', ...list(removed)] : []),
+    ...(added.length > 0 ? ['Added:', ...list(added)] : []),
+    ...(removed.length === 0 && added.length === 0 ? ['Formatting changes only.'] : []),
+  ].join('\n');
+}
+
+/**
+ * Non-empty lines with list, heading and quote markers stripped, so they render as plain bullets
+ */
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().replace(/^(?:[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+|#+\s+|>\s*)/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): { removed: string[]; added: string[] } {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const removed: string[] = [];
+  const added: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  return { removed: [...removed, ...before.slice(i)], added: [...added, ...after.slice(j)] };
+}
+
+async function hashContext(context: StoryContext): Promise<string> {
+  return sha256Hex(JSON.stringify(context));
+}
+
+/**
+ * Hash a description through its Markdown rendering, so attributes Jira adds to stored ADF don't count as edits
+ */
+async function hashDescription(description: unknown): Promise<string> {
+  return sha256Hex(descriptionToMarkdown(description));
+}
+
+function snapshotKey(issueKey: string, env: Env): string {
+  return scopeKey(PREFIX + issueKey, env);
+}
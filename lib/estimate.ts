@@ -0,0 +1,91 @@
+/**
+ * AI effort estimates: map the spec's size to Story Points or an original
+ * estimate on the new subtask, or to a comment when the field isn't available
+ */
+
+import { EstimateSize, SubtaskSpec } from './types';
+import { resolveField } from './fields';
+import { TenantContext } from './jira';
+import { Logger, logger } from './logger';
+
+interface Env extends TenantContext {
+  ESTIMATE_TARGET?: string;
+  ESTIMATE_FIELD?: string;
+}
+
+// Story points and Jira time-tracking duration per size
+const SIZES: Record<EstimateSize, { points: number; originalEstimate: string }> = {
+  XS: { points: 1, originalEstimate: '2h' },
+  S: { points: 2, originalEstimate: '4h' },
+  M: { points: 3, originalEstimate: '1d' },
+  L: { points: 5, originalEstimate: '2d' },
+  XL: { points: 8, originalEstimate: '4d' },
+};
+
+const DEFAULT_STORY_POINTS_FIELD = 'Story Points';
+
+type EstimateTarget = 'storyPoints' | 'originalEstimate' | 'comment';
+
+/**
+ * Where estimates go, from ESTIMATE_TARGET (unset: estimates are not written)
+ */
+function getEstimateTarget(env: Env): EstimateTarget | null {
+  const target = env.ESTIMATE_TARGET?.trim();
+  if (!target) {
+    return null;
+  }
+  if (target !== 'storyPoints' && target !== 'originalEstimate' && target !== 'comment') {
+    throw new Error(`ESTIMATE_TARGET must be storyPoints, originalEstimate or comment (got "${target}")`);
+  }
+  return target;
+}
+
+/**
+ * Fields createSubtask sets to record the estimate
+ * @param estimate - Estimate from the generated spec
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Story Points (ESTIMATE_FIELD, default "Story Points") or timetracking.originalEstimate; empty for comment/off
+ */
+export async function getEstimateFields(
+  estimate: SubtaskSpec['estimate'],
+  env: Env,
+  log: Logger = logger
+): Promise<Record<string, unknown>> {
+  const target = getEstimateTarget(env);
+  const size = SIZES[estimate.size];
+
+  if (target === 'originalEstimate') {
+    return { timetracking: { originalEstimate: size.originalEstimate } };
+  }
+  if (target === 'storyPoints') {
+    const fieldName = env.ESTIMATE_FIELD || DEFAULT_STORY_POINTS_FIELD;
+    const field = await resolveField(fieldName, env, log);
+    if (!field) {
+      throw new Error(`Estimate field "${fieldName}" not found in Jira`);
+    }
+    return { [field.id]: size.points };
+  }
+  return {};
+}
+
+/**
+ * Comment recording the estimate, when ESTIMATE_TARGET is "comment"
+ * @param estimate - Estimate from the generated spec
+ * @param env - Environment variables
+ * @returns Comment text (Markdown), or undefined when estimates go to a field
+ */
+export function getEstimateComment(estimate: SubtaskSpec['estimate'], env: Env): string | undefined {
+  if (getEstimateTarget(env) !== 'comment') {
+    return undefined;
+  }
+  return `**board-helper estimate**: ${formatEstimate(estimate)}\n\n${estimate.justification}`;
+}
+
+/**
+ * One-line estimate, e.g. "M (3 points, ~1d)"
+ */
+export function formatEstimate(estimate: SubtaskSpec['estimate']): string {
+  const size = SIZES[estimate.size];
+  return `${estimate.size} (${size.points} points, ~${size.originalEstimate})`;
+}
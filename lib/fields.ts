@@ -0,0 +1,216 @@
+/**
+ * Per-project custom field mapping
+ * Inputs: which Jira fields hold a story's acceptance criteria, design link,
+ * story points, team and target platform. Outputs: which fields createSubtask
+ * fills on the new subtask. Fields are configured by name or ID; names are
+ * resolved through Jira's field metadata API (cached in KV).
+ */
+
+import {
+  FieldMapping,
+  JiraField,
+  StoryContext,
+  StoryFieldName,
+} from './types';
+import { getFields, TenantContext } from './jira';
+import { scopeKey } from './tenants';
+import { Logger, logger } from './logger';
+
+interface Env extends TenantContext {
+  FIELD_MAPPINGS?: string;
+}
+
+// Mapping applied to projects without their own entry in FIELD_MAPPINGS
+const DEFAULT_PROJECT = '*';
+
+const FIELDS_CACHE_KEY = 'jira-fields';
+const FIELDS_CACHE_TTL_SECONDS = 3600;
+
+export type InputFieldIds = Partial<Record<StoryFieldName, string>>;
+
+/**
+ * Load the field mapping for a project from FIELD_MAPPINGS
+ * (JSON object keyed by project key, "*" for all other projects)
+ * @param projectKey - Jira project key
+ * @param env - Environment variables
+ * @returns Field mapping (empty when none is configured)
+ */
+export function getFieldMapping(projectKey: string, env: Env): FieldMapping {
+  if (!env.FIELD_MAPPINGS) {
+    return {};
+  }
+
+  let mappings: unknown;
+  try {
+    mappings = JSON.parse(env.FIELD_MAPPINGS);
+  } catch {
+    throw new Error('FIELD_MAPPINGS is not valid JSON');
+  }
+  if (!mappings || typeof mappings !== 'object' || Array.isArray(mappings)) {
+    throw new Error('FIELD_MAPPINGS must be a JSON object keyed by project key');
+  }
+
+  const byProject = mappings as Record<string, FieldMapping>;
+  return byProject[projectKey] || byProject[DEFAULT_PROJECT] || {};
+}
+
+/**
+ * Resolve the input field IDs configured for the project an issue belongs to
+ * @param issueKey - Issue key (e.g. PROJ-123)
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Field ID per story input; inputs whose field cannot be found are left out
+ */
+export async function getInputFieldIds(issueKey: string, env: Env, log: Logger = logger): Promise<InputFieldIds> {
+  const { inputs } = getFieldMapping(issueKey.split('-')[0], env);
+  if (!inputs || Object.keys(inputs).length === 0) {
+    return {};
+  }
+
+  const fields = await getCachedFields(env, log);
+  const ids: InputFieldIds = {};
+  for (const [input, nameOrId] of Object.entries(inputs) as Array<[StoryFieldName, string]>) {
+    const field = findField(fields, nameOrId);
+    if (field) {
+      ids[input] = field.id;
+    } else {
+      log.warn(`Field "${nameOrId}" for ${input} not found in Jira`, { issueKey });
+    }
+  }
+  return ids;
+}
+
+/**
+ * Build the extra fields createSubtask sets on a new subtask for a story
+ * Each output either copies a story input (formatted for the target field's
+ * type) or sets a fixed value as-is
+ * @param context - Story context
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Field ID to value, ready for the issue creation payload
+ */
+export async function buildOutputFields(
+  context: StoryContext,
+  env: Env,
+  log: Logger = logger
+): Promise<Record<string, unknown>> {
+  const { outputs } = getFieldMapping(context.key.split('-')[0], env);
+  if (!outputs || Object.keys(outputs).length === 0) {
+    return {};
+  }
+
+  const fields = await getCachedFields(env, log);
+  const values: Record<string, unknown> = {};
+  for (const [nameOrId, source] of Object.entries(outputs)) {
+    const field = findField(fields, nameOrId);
+    if (!field) {
+      log.warn(`Output field "${nameOrId}" not found in Jira`, { issueKey: context.key });
+      continue;
+    }
+
+    if (typeof source === 'object') {
+      values[field.id] = source.value;
+      continue;
+    }
+
+    const value = getStoryInput(context, source);
+    if (value !== undefined && value !== '') {
+      values[field.id] = formatFieldValue(field, value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Look up a field by ID or (case-insensitive) name
+ * @param nameOrId - Field name ("Story Points") or ID ("customfield_10016")
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Field metadata or undefined when Jira has no such field
+ */
+export async function resolveField(nameOrId: string, env: Env, log: Logger = logger): Promise<JiraField | undefined> {
+  return findField(await getCachedFields(env, log), nameOrId);
+}
+
+/**
+ * Read a mapped field value as plain text (option, user, team and ADF values included)
+ * @param value - Raw Jira field value
+ * @param toText - Converter for rich text (ADF or wiki markup)
+ * @returns Text, or undefined for empty values
+ */
+export function fieldValueToText(value: unknown, toText: (rich: unknown) => string): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => fieldValueToText(item, toText)).filter(Boolean);
+    return items.length > 0 ? items.join(', ') : undefined;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, any>;
+    if (record.type === 'doc') {
+      return toText(record) || undefined;
+    }
+    return record.value ?? record.name ?? record.displayName ?? record.title ?? undefined;
+  }
+  return undefined;
+}
+
+function getStoryInput(context: StoryContext, input: StoryFieldName): string | number | undefined {
+  switch (input) {
+    case 'acceptanceCriteria':
+      return context.acceptanceCriteria;
+    case 'designLink':
+      return context.figmaLink;
+    case 'storyPoints':
+      return context.storyPoints;
+    case 'team':
+      return context.team;
+    case 'platform':
+      return context.platform;
+  }
+}
+
+/**
+ * Shape a value for the field's schema (options as { value }, numbers as numbers, ...)
+ */
+function formatFieldValue(field: JiraField, value: string | number): unknown {
+  const schemaType = field.schema?.type;
+  const itemType = field.schema?.items;
+
+  if (schemaType === 'number') {
+    return Number(value);
+  }
+  if (schemaType === 'option') {
+    return { value: String(value) };
+  }
+  if (schemaType === 'array') {
+    const items = String(value).split(',').map((item) => item.trim()).filter(Boolean);
+    return itemType === 'option' ? items.map((item) => ({ value: item })) : items;
+  }
+  return String(value);
+}
+
+function findField(fields: JiraField[], nameOrId: string): JiraField | undefined {
+  const wanted = nameOrId.trim().toLowerCase();
+  return (
+    fields.find((field) => field.id.toLowerCase() === wanted) ||
+    fields.find((field) => field.name.toLowerCase() === wanted)
+  );
+}
+
+async function getCachedFields(env: Env, log: Logger): Promise<JiraField[]> {
+  // Custom field IDs differ per Jira site
+  const cacheKey = scopeKey(FIELDS_CACHE_KEY, env);
+  const cached = await env.STATE.get<JiraField[]>(cacheKey, 'json');
+  if (cached) {
+    return cached;
+  }
+
+  const fields = await getFields(env, log);
+  await env.STATE.put(cacheKey, JSON.stringify(fields), { expirationTtl: FIELDS_CACHE_TTL_SECONDS });
+  return fields;
+}
@@ -0,0 +1,196 @@
+/**
+ * Figma REST API client: summarize the frames, text layers and component
+ * instances behind a story's design link for the frontend prompt
+ */
+
+import { FigmaDesign, StoryContext } from './types';
+import { scopeKey } from './tenants';
+import { Logger, logger } from './logger';
+
+interface Env {
+  FIGMA_API_TOKEN?: string;
+  FIGMA_API_BASE_URL?: string;
+  FIGMA_CACHE_TTL?: string;
+  TENANT_ID?: string;
+  STATE: KVNamespace;
+}
+
+const DEFAULT_API_BASE_URL = 'https://api.figma.com';
+const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+// KV rejects expirations shorter than a minute
+const MIN_CACHE_TTL_SECONDS = 60;
+
+const CACHE_PREFIX = 'figma:';
+
+// Whole-file reads stop at pages and their top-level frames; full documents can run to many MB
+const FILE_DEPTH = 2;
+
+// Caps keep the prompt small for large files
+const MAX_FRAMES = 20;
+const MAX_COMPONENTS = 30;
+const MAX_TEXTS = 40;
+const MAX_TEXT_LENGTH = 80;
+
+// Subset of the Figma node shape this client reads
+interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  characters?: string;
+  componentId?: string;
+  children?: FigmaNode[];
+}
+
+interface FigmaComponents {
+  [componentId: string]: { name: string };
+}
+
+/**
+ * Extract the file key and node ID from a Figma link
+ * Accepts /file/, /design/ and /proto/ links; node IDs use "1-2" in URLs and "1:2" in the API
+ * @param link - Figma URL
+ * @returns File key and optional node ID, or null when the link is not a Figma file
+ */
+export function parseFigmaLink(link: string): { fileKey: string; nodeId?: string } | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)figma\.com$/.test(url.hostname)) {
+    return null;
+  }
+
+  const match = url.pathname.match(/^\/(?:file|design|proto)\/([A-Za-z0-9]+)/);
+  if (!match) {
+    return null;
+  }
+
+  const nodeId = url.searchParams.get('node-id')?.replace(/-/g, ':');
+  return nodeId ? { fileKey: match[1], nodeId } : { fileKey: match[1] };
+}
+
+/**
+ * Fetch (or read from cache) the design summary for a Figma link
+ * @param link - Figma URL
+ * @param env - Environment variables
+ * @returns Design summary
+ * @throws When the link is not a Figma file or the API request fails
+ */
+export async function getFigmaDesign(link: string, env: Env): Promise<FigmaDesign> {
+  const target = parseFigmaLink(link);
+  if (!target) {
+    throw new Error(`Not a Figma file link: ${link}`);
+  }
+
+  // Per tenant: each tenant reads designs with its own FIGMA_API_TOKEN
+  const cacheKey = scopeKey(`${CACHE_PREFIX}${target.fileKey}:${target.nodeId || 'file'}`, env);
+  const cached = await env.STATE.get<FigmaDesign>(cacheKey, 'json');
+  if (cached) {
+    return cached;
+  }
+
+  const design = target.nodeId
+    ? await fetchNode(target.fileKey, target.nodeId, env)
+    : await fetchFile(target.fileKey, env);
+
+  const ttl = Number(env.FIGMA_CACHE_TTL) || DEFAULT_CACHE_TTL_SECONDS;
+  await env.STATE.put(cacheKey, JSON.stringify(design), {
+    expirationTtl: Math.max(ttl, MIN_CACHE_TTL_SECONDS),
+  });
+  return design;
+}
+
+/**
+ * Add the Figma design summary to a story context
+ * Returns the context unchanged when Figma is not configured, the story has
+ * no design link, or the design cannot be read - generation never fails on Figma
+ * @param context - Story context
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Story context with `design` set when available
+ */
+export async function withFigmaDesign(context: StoryContext, env: Env, log: Logger = logger): Promise<StoryContext> {
+  if (!env.FIGMA_API_TOKEN || !context.figmaLink || context.design) {
+    return context;
+  }
+
+  try {
+    return { ...context, design: await getFigmaDesign(context.figmaLink, env) };
+  } catch (error) {
+    log.error(`Error reading Figma design for ${context.key}`, { error });
+    return context;
+  }
+}
+
+async function fetchFile(fileKey: string, env: Env): Promise<FigmaDesign> {
+  const file = await figmaRequest<{ name: string; document: FigmaNode; components?: FigmaComponents }>(
+    `/v1/files/${fileKey}?depth=${FILE_DEPTH}`,
+    env
+  );
+  return summarize(file.name, file.document, file.components || {});
+}
+
+async function fetchNode(fileKey: string, nodeId: string, env: Env): Promise<FigmaDesign> {
+  const result = await figmaRequest<{
+    name: string;
+    nodes: Record<string, { document: FigmaNode; components?: FigmaComponents } | null>;
+  }>(`/v1/files/${fileKey}/nodes?ids=${encodeURIComponent(nodeId)}`, env);
+
+  const node = result.nodes[nodeId];
+  if (!node) {
+    throw new Error(`Figma node ${nodeId} not found in file ${fileKey}`);
+  }
+  return { ...summarize(result.name, node.document, node.components || {}), nodeName: node.document.name };
+}
+
+async function figmaRequest<T>(path: string, env: Env): Promise<T> {
+  const baseUrl = (env.FIGMA_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'GET',
+    headers: { 'X-Figma-Token': env.FIGMA_API_TOKEN || '' },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Figma API error: ${response.status} ${errorText}`);
+  }
+  return response.json<T>();
+}
+
+/**
+ * Collect top-level frame names, text layer contents and component instance names
+ */
+function summarize(fileName: string, root: FigmaNode, components: FigmaComponents): FigmaDesign {
+  const frames = new Set<string>();
+  const componentNames = new Set<string>();
+  const texts = new Set<string>();
+
+  const visit = (node: FigmaNode, parentType: string | null) => {
+    // Frames directly on a page or section (or the linked frame itself) are screens
+    if (node.type === 'FRAME' && (parentType === null || parentType === 'CANVAS' || parentType === 'SECTION')) {
+      frames.add(node.name);
+    }
+    if (node.type === 'INSTANCE') {
+      componentNames.add((node.componentId && components[node.componentId]?.name) || node.name);
+    }
+    if (node.type === 'TEXT' && node.characters?.trim()) {
+      texts.add(node.characters.trim().replace(/\s+/g, ' ').slice(0, MAX_TEXT_LENGTH));
+    }
+
+    // Component internals are not part of the screen's own content
+    if (node.type !== 'INSTANCE') {
+      node.children?.forEach((child) => visit(child, node.type));
+    }
+  };
+  visit(root, null);
+
+  return {
+    fileName,
+    frames: [...frames].slice(0, MAX_FRAMES),
+    components: [...componentNames].slice(0, MAX_COMPONENTS),
+    texts: [...texts].slice(0, MAX_TEXTS),
+  };
+}
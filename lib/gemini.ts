@@ -1,20 +1,42 @@
 /**
- * Google Gemini integration for generating subtask descriptions
+ * AI generation of subtask descriptions
+ * The model itself is chosen by the provider layer in lib/llm.ts (Gemini by default)
  */
 
-import { StoryContext, AIGeneratedDescription } from './types';
-
-interface Env {
-  GEMINI_API_KEY: string;
+import {
+  StoryContext,
+  AIGeneratedDescription,
+  SubtaskSpec,
+  SubtaskType,
+  SubtaskTypeConfig,
+  TokenUsage,
+} from './types';
+import { complete, LLMEnv } from './llm';
+import { withFigmaDesign } from './figma';
+import { applyHandoff } from './handoff';
+import { getActiveTemplate, renderTemplate } from './templates';
+import { Logger, logger } from './logger';
+import {
+  SPEC_INSTRUCTIONS,
+  buildRepairPrompt,
+  normalizeSpec,
+  parseSpecOutput,
+  specToADF,
+  validateSpec,
+} from './spec';
+
+interface Env extends LLMEnv {
+  LLM_REPAIR_ATTEMPTS?: string;
+  FIGMA_API_TOKEN?: string;
+  FIGMA_API_BASE_URL?: string;
+  FIGMA_CACHE_TTL?: string;
+  STATE: KVNamespace;
 }
 
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-lite:generateContent';
-
-const DISCLAIMER = `⚠️ **AUTO-GENERATED CONTENT** - Please verify with the parent story and confirm details with the reporter before starting work.
-
----
+const DISCLAIMER = '⚠️ AUTO-GENERATED CONTENT - Please verify with the parent story and confirm details with the reporter before starting work.';
 
-`;
+// Follow-up requests allowed when the model returns an invalid spec
+const DEFAULT_REPAIR_ATTEMPTS = 1;
 
 const SYSTEM_PROMPT = `You are an expert software engineering assistant that helps break down user stories into detailed implementation subtasks.
 
@@ -22,133 +44,95 @@ CRITICAL RULES:
 1. ONLY use information explicitly stated in the story description and acceptance criteria
 2. DO NOT invent, assume, or hallucinate any details not provided
 3. If information is missing, use placeholders like [TO BE DEFINED] or [ASK REPORTER]
-4. Be conservative - it's better to leave sections empty than to guess
-5. Mark any assumptions clearly with "ASSUMPTION:" prefix
+4. Be conservative - it's better to leave lists empty than to guess
+5. Put any assumptions in the "assumptions" list
 
 Your responses should be based STRICTLY on the provided story content.`;
 
-async function callGemini(prompt: string, env: Env): Promise<string> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 25000);
-
-  try {
-    const response = await fetch(`${GEMINI_API_URL}?key=${env.GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + prompt }] }],
-        generationConfig: { temperature: 0.5, maxOutputTokens: 1000 },
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+/**
+ * Generate a subtask description using the prompt registered for its type
+ * The model returns a JSON spec which is validated, repaired if needed, and rendered to ADF
+ */
+export async function generateDescription(
+  config: SubtaskTypeConfig,
+  storyContext: StoryContext,
+  env: Env,
+  log: Logger = logger
+): Promise<AIGeneratedDescription> {
+  const context = config.usesDesign ? await withFigmaDesign(storyContext, env, log) : storyContext;
+  const template = await getActiveTemplate(context.key, config.type, env);
+  const body = template ? renderTemplate(template.template, context) : config.prompt(context);
+  const prompt = `${body}\n\n${SPEC_INSTRUCTIONS}`;
+  const disclaimer = template
+    ? `${DISCLAIMER} (Prompt template ${template.project}/${config.type} v${template.version})`
+    : DISCLAIMER;
+  const configuredRepairs = Number(env.LLM_REPAIR_ATTEMPTS);
+  const maxRepairs = Number.isInteger(configuredRepairs) && configuredRepairs >= 0
+    ? configuredRepairs
+    : DEFAULT_REPAIR_ATTEMPTS;
+  let response = await complete(SYSTEM_PROMPT, prompt, env, { json: true }, log);
+  let usage = response.usage;
+
+  for (let attempt = 0; ; attempt++) {
+    const { spec: checked, errors } = checkSpec(response.text, config);
+    if (checked) {
+      const spec = config.usesHandoff && context.handoff ? applyHandoff(checked, context.handoff) : checked;
+      return {
+        prompt,
+        spec,
+        document: specToADF(spec, disclaimer),
+        rawOutput: response.text,
+        provider: response.provider,
+        model: response.model,
+        usage,
+        ...(template && { template: { project: template.project, version: template.version } }),
+      };
     }
 
-    const data = await response.json() as any;
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response from Gemini API');
+    if (attempt >= maxRepairs) {
+      throw new Error(`Invalid ${config.type} spec from ${response.provider}: ${errors.join('; ')}`);
     }
 
-    return data.candidates[0].content.parts[0].text;
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error('Gemini API timeout - request took too long');
-    }
-    throw error;
+    log.warn(`Repairing ${config.type} spec (attempt ${attempt + 1})`, { errors });
+    response = await complete(SYSTEM_PROMPT, buildRepairPrompt(prompt, response.text, errors), env, { json: true }, log);
+    usage = addUsage(usage, response.usage);
   }
 }
 
-export async function generateBackendDescription(
-  storyContext: StoryContext,
-  env: Env
-): Promise<AIGeneratedDescription> {
-  const prompt = buildBackendPrompt(storyContext);
-  const content = await callGemini(prompt, env);
-  return { content: DISCLAIMER + content };
-}
+function checkSpec(
+  output: string,
+  config: SubtaskTypeConfig
+): { spec?: SubtaskSpec; errors: string[] } {
+  let value: unknown;
+  try {
+    value = normalizeSpec(parseSpecOutput(output));
+  } catch (error) {
+    return { errors: [`invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
 
-export async function generateFrontendDescription(
-  storyContext: StoryContext,
-  env: Env
-): Promise<AIGeneratedDescription> {
-  const prompt = buildFrontendPrompt(storyContext);
-  const content = await callGemini(prompt, env);
-  return { content: DISCLAIMER + content };
+  const errors = validateSpec(value, config);
+  return errors.length === 0 ? { spec: value as SubtaskSpec, errors } : { errors };
 }
 
-function buildBackendPrompt(context: StoryContext): string {
-  return `Create a backend implementation subtask from this Jira story. Extract and organize ONLY the information provided.
-
-Story Key: ${context.key}
-Summary: ${context.summary}
-
-Description:
-${context.description || '[No description provided]'}
-${context.figmaLink ? `\nDesign Link: ${context.figmaLink}` : ''}
-
-FORMAT YOUR RESPONSE:
-
-**Goal:**
-[Summarize the backend functionality needed]
-
-**Fields Required:**
-[List ALL fields mentioned with types and validations]
-
-**Business Logic:**
-[Extract ALL business rules and validations mentioned]
-
-**Technical Implementation:**
-- Endpoint: [Suggest based on the feature]
-- Method: [POST/PUT/GET]
-- Request Body: [List fields]
-- Response: [Success/error responses]
-
-**Validation & Errors:**
-[List ALL validations mentioned]
-
-**Tests:**
-- Unit tests for validations
-- Integration tests for endpoint
-
-IMPORTANT: Extract ALL fields and rules from the story. Do not skip requirements.`;
+function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
 }
 
-function buildFrontendPrompt(context: StoryContext): string {
-  return `Create a frontend implementation subtask from this Jira story. Extract and organize ONLY the information provided.
-
-Story Key: ${context.key}
-Summary: ${context.summary}
-
-Description:
-${context.description || '[No description provided]'}
-${context.figmaLink ? `\nDesign Link: ${context.figmaLink}` : ''}
-
-FORMAT YOUR RESPONSE:
-
-**Goal:**
-[Summarize the UI functionality needed]
-
-**Design:**
-${context.figmaLink ? `[${context.figmaLink}]` : '[Design link needed]'}
-
-**UI Components & Fields:**
-[List ALL form fields and UI elements mentioned]
-
-**Validations (Frontend):**
-[Extract ALL frontend validations and error messages]
-
-**User Flow:**
-[Describe entry point, steps, success state, error handling]
-
-**Tests:**
-- E2E tests for complete flow
-- Component tests for validations
-
-IMPORTANT: Extract ALL fields and validations. Note the entry point and navigation flow.`;
+/**
+ * Generate descriptions for several subtask types in parallel
+ */
+export async function generateDescriptions(
+  configs: SubtaskTypeConfig[],
+  storyContext: StoryContext,
+  env: Env,
+  log: Logger = logger
+): Promise<Map<SubtaskType, AIGeneratedDescription>> {
+  const descriptions = await Promise.all(
+    configs.map((config) => generateDescription(config, storyContext, env, log))
+  );
+  return new Map(configs.map((config, i) => [config.type, descriptions[i]]));
 }
@@ -0,0 +1,64 @@
+/**
+ * Backend-to-frontend handoff: generate the backend contract first, feed it
+ * to the frontend subtask and link the two issues
+ */
+
+import { BackendHandoff, SubtaskSpec } from './types';
+import { linkIssues, TenantContext } from './jira';
+import { Logger, logger } from './logger';
+
+interface Env extends TenantContext {
+  BACKEND_HANDOFF?: string;
+  HANDOFF_LINK_TYPE?: string;
+}
+
+// Frontend "is blocked by" backend
+const DEFAULT_LINK_TYPE = 'Blocks';
+
+/**
+ * Whether frontend subtasks are generated after, and from, the backend contract
+ */
+export function isHandoffEnabled(env: Env): boolean {
+  return env.BACKEND_HANDOFF === 'true';
+}
+
+/**
+ * Make a frontend spec use the backend contract: the endpoint is the backend's
+ * and a "Backend Handoff" section references the backend subtask
+ * @param spec - Generated frontend spec
+ * @param handoff - Backend contract
+ * @returns Spec with the handoff applied
+ */
+export function applyHandoff(spec: SubtaskSpec, handoff: BackendHandoff): SubtaskSpec {
+  const { endpoint } = handoff;
+  const items = [
+    handoff.key ? `Backend subtask: ${handoff.key}` : '',
+    endpoint ? `Endpoint: ${endpoint.method} ${endpoint.path}` : '',
+    endpoint?.requestBody ? `Request: ${endpoint.requestBody}` : '',
+    endpoint?.response ? `Response: ${endpoint.response}` : '',
+  ].filter(Boolean);
+
+  return {
+    ...spec,
+    endpoint: endpoint ?? spec.endpoint,
+    sections: items.length > 0 ? [{ title: 'Backend Handoff', items }, ...spec.sections] : spec.sections,
+  };
+}
+
+/**
+ * Link a newly created frontend subtask to its backend subtask
+ * HANDOFF_LINK_TYPE (default "Blocks") names the link type; "none" disables linking
+ * @param backendKey - Backend subtask key (outward: "blocks")
+ * @param frontendKey - Frontend subtask key (inward: "is blocked by")
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Link type used, or null when linking is disabled
+ */
+export async function linkHandoff(backendKey: string, frontendKey: string, env: Env, log: Logger = logger): Promise<string | null> {
+  const linkType = env.HANDOFF_LINK_TYPE?.trim() || DEFAULT_LINK_TYPE;
+  if (linkType.toLowerCase() === 'none') {
+    return null;
+  }
+  await linkIssues(linkType, frontendKey, backendKey, env, log);
+  return linkType;
+}
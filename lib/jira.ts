@@ -3,290 +3,270 @@
  */
 
 import {
+  AdfDocument,
+  JiraField,
   JiraIssue,
   SubtaskInput,
   CreateSubtaskResponse,
   SubtaskType,
 } from './types';
+import { AUTO_GENERATED_LABEL, getSubtaskTypeConfig } from './registry';
+import { markdownToADF } from './adf';
+import { Logger, logger } from './logger';
+import { incrementCounter } from './metrics';
+import { getJiraAuth, JiraAuth, JiraAuthEnv, refreshJiraAuth } from './oauth';
 
-interface Env {
-  JIRA_BASE_URL: string;
-  JIRA_EMAIL: string;
-  JIRA_API_TOKEN: string;
-}
+/**
+ * Jira site a call runs against: the global env, or a tenant's env from lib/tenants.ts
+ * Sites connected with OAuth (lib/oauth.ts) use bearer tokens, others Basic auth
+ */
+export type TenantContext = JiraAuthEnv;
 
 /**
- * Create Basic Auth header for Jira API
- * @returns Authorization header value
+ * Call the Jira REST API with auth and JSON headers, counting responses by status code
+ * An OAuth access token rejected with 401 is refreshed and the request retried once
+ * @param path - API path, e.g. /rest/api/3/issue/PROJ-1
+ * @param init - Method and optional JSON body
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @returns Raw response (callers check `ok`)
  */
-function getAuthHeader(env: Env): string {
-  const credentials = btoa(`${env.JIRA_EMAIL}:${env.JIRA_API_TOKEN}`);
-  return `Basic ${credentials}`;
+async function jiraFetch(path: string, init: { method: string; body?: string }, tenant: TenantContext): Promise<Response> {
+  const send = async (auth: JiraAuth): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${auth.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          Authorization: auth.authorization,
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error) {
+      incrementCounter('board_helper_jira_requests_total', { method: init.method, status: 0 });
+      throw error;
+    }
+    incrementCounter('board_helper_jira_requests_total', { method: init.method, status: response.status });
+    return response;
+  };
+
+  const auth = await getJiraAuth(tenant);
+  const response = await send(auth);
+  if (response.status === 401 && auth.oauth) {
+    return send(await refreshJiraAuth(auth, tenant));
+  }
+  return response;
 }
 
 /**
- * Convert Markdown text to Jira ADF (Atlassian Document Format)
+ * Use ADF descriptions as-is and convert Markdown ones
  */
-function markdownToADF(markdown: string): any {
-  const content: any[] = [];
-  const lines = markdown.split('\n');
-  let i = 0;
-
-  while (i < lines.length) {
-    const line = lines[i];
-
-    // Skip empty lines
-    if (line.trim() === '') {
-      i++;
-      continue;
-    }
+function toADF(description: string | AdfDocument): AdfDocument {
+  return typeof description === 'string' ? markdownToADF(description) : description;
+}
 
-    // Handle code blocks
-    if (line.trim().startsWith('```')) {
-      const language = line.trim().slice(3) || 'plaintext';
-      const codeLines: string[] = [];
-      i++;
-      while (i < lines.length && !lines[i].trim().startsWith('```')) {
-        codeLines.push(lines[i]);
-        i++;
-      }
-      i++; // Skip closing ```
-      content.push({
-        type: 'codeBlock',
-        attrs: { language },
-        content: [{ type: 'text', text: codeLines.join('\n') }]
-      });
-      continue;
-    }
+/**
+ * Fetch full issue details from Jira
+ * @param issueKey - Jira issue key (e.g., PROJ-123)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Complete Jira issue object
+ */
+export async function getIssue(issueKey: string, tenant: TenantContext, log: Logger = logger): Promise<JiraIssue> {
+  const issue = await findIssue(issueKey, tenant, log);
+  if (!issue) {
+    throw new Error(`Failed to fetch issue ${issueKey}: 404 Issue does not exist`);
+  }
+  return issue;
+}
 
-    // Handle headers
-    if (line.startsWith('**') && line.endsWith('**') && !line.includes(':**')) {
-      // Bold line acting as header
-      content.push({
-        type: 'heading',
-        attrs: { level: 3 },
-        content: [{ type: 'text', text: line.replace(/\*\*/g, '').trim() }]
-      });
-      i++;
-      continue;
-    }
+/**
+ * Fetch full issue details from Jira, allowing for unknown keys
+ * @param issueKey - Jira issue key (e.g., PROJ-123)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Complete Jira issue object, or null if the issue does not exist (or is not visible)
+ */
+export async function findIssue(issueKey: string, tenant: TenantContext, log: Logger = logger): Promise<JiraIssue | null> {
+  try {
+    const path = `/rest/api/3/issue/${issueKey}`;
+    const response = await jiraFetch(path, {
+      method: 'GET',
+    }, tenant);
 
-    // Handle bullet points
-    if (line.trim().startsWith('* ') || line.trim().startsWith('- ')) {
-      const listItems: any[] = [];
-      while (i < lines.length && (lines[i].trim().startsWith('* ') || lines[i].trim().startsWith('- '))) {
-        const itemText = lines[i].trim().slice(2);
-        listItems.push({
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: parseInlineFormatting(itemText)
-          }]
-        });
-        i++;
-      }
-      content.push({
-        type: 'bulletList',
-        content: listItems
-      });
-      continue;
+    if (response.status === 404) {
+      log.warn(`Issue not found: ${issueKey}`);
+      return null;
     }
-
-    // Handle numbered lists
-    if (/^\d+\.\s/.test(line.trim())) {
-      const listItems: any[] = [];
-      while (i < lines.length && /^\d+\.\s/.test(lines[i].trim())) {
-        const itemText = lines[i].trim().replace(/^\d+\.\s+/, '');
-        listItems.push({
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: parseInlineFormatting(itemText)
-          }]
-        });
-        i++;
-      }
-      content.push({
-        type: 'orderedList',
-        content: listItems
-      });
-      continue;
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to fetch issue ${issueKey}: ${response.status} ${errorText}`
+      );
     }
 
-    // Regular paragraph
-    content.push({
-      type: 'paragraph',
-      content: parseInlineFormatting(line)
-    });
-    i++;
+    const issue = await response.json();
+    log.info(`Successfully fetched issue: ${issueKey}`);
+    return issue as JiraIssue;
+  } catch (error) {
+    log.error(`Error fetching issue ${issueKey}`, { error });
+    throw error;
   }
-
-  return {
-    type: 'doc',
-    version: 1,
-    content: content.length > 0 ? content : [{ type: 'paragraph', content: [{ type: 'text', text: '' }] }]
-  };
 }
 
 /**
- * Parse inline formatting (bold, italic, code)
+ * Search issues with JQL, one page at a time
+ * @param jql - JQL query
+ * @param options - Fields to return, page size and the cursor from the previous page
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Matching issues and the cursor for the next page (absent on the last page)
  */
-function parseInlineFormatting(text: string): any[] {
-  const result: any[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    // Handle inline code `code`
-    const codeMatch = remaining.match(/^`([^`]+)`/);
-    if (codeMatch) {
-      result.push({
-        type: 'text',
-        text: codeMatch[1],
-        marks: [{ type: 'code' }]
-      });
-      remaining = remaining.slice(codeMatch[0].length);
-      continue;
-    }
-
-    // Handle bold **text**
-    const boldMatch = remaining.match(/^\*\*([^*]+)\*\*/);
-    if (boldMatch) {
-      result.push({
-        type: 'text',
-        text: boldMatch[1],
-        marks: [{ type: 'strong' }]
-      });
-      remaining = remaining.slice(boldMatch[0].length);
-      continue;
-    }
+export async function searchIssues(
+  jql: string,
+  options: { fields?: string[]; maxResults?: number; nextPageToken?: string },
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<{ issues: JiraIssue[]; nextPageToken?: string }> {
+  try {
+    const path = `/rest/api/3/search/jql`;
+    const response = await jiraFetch(path, {
+      method: 'POST',
+      body: JSON.stringify({
+        jql,
+        fields: options.fields,
+        maxResults: options.maxResults,
+        nextPageToken: options.nextPageToken,
+      }),
+    }, tenant);
 
-    // Handle italic *text*
-    const italicMatch = remaining.match(/^\*([^*]+)\*/);
-    if (italicMatch) {
-      result.push({
-        type: 'text',
-        text: italicMatch[1],
-        marks: [{ type: 'em' }]
-      });
-      remaining = remaining.slice(italicMatch[0].length);
-      continue;
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to search issues: ${response.status} ${errorText}`
+      );
     }
 
-    // Find next special character
-    const nextSpecial = remaining.search(/[`*]/);
-    if (nextSpecial === -1) {
-      // No more special characters
-      if (remaining.length > 0) {
-        result.push({ type: 'text', text: remaining });
-      }
-      break;
-    } else if (nextSpecial === 0) {
-      // Special char at start but didn't match patterns - treat as regular text
-      result.push({ type: 'text', text: remaining[0] });
-      remaining = remaining.slice(1);
-    } else {
-      // Add text before special character
-      result.push({ type: 'text', text: remaining.slice(0, nextSpecial) });
-      remaining = remaining.slice(nextSpecial);
-    }
+    const result = (await response.json()) as { issues: JiraIssue[]; nextPageToken?: string; isLast?: boolean };
+    return {
+      issues: result.issues || [],
+      nextPageToken: result.isLast === false ? result.nextPageToken : undefined,
+    };
+  } catch (error) {
+    log.error(`Error searching issues (${jql})`, { error });
+    throw error;
   }
-
-  return result.length > 0 ? result : [{ type: 'text', text: '' }];
 }
 
 /**
- * Fetch full issue details from Jira
- * @param issueKey - Jira issue key (e.g., PROJ-123)
- * @param env - Environment variables
- * @returns Complete Jira issue object
+ * Count issues matching a JQL query (approximate, as reported by Jira)
+ * @param jql - JQL query
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Number of matching issues
  */
-export async function getIssue(issueKey: string, env: Env): Promise<JiraIssue> {
+export async function countIssues(jql: string, tenant: TenantContext, log: Logger = logger): Promise<number> {
   try {
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/issue/${issueKey}`;
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        Authorization: getAuthHeader(env),
-        'Content-Type': 'application/json',
-      },
-    });
+    const path = `/rest/api/3/search/approximate-count`;
+    const response = await jiraFetch(path, {
+      method: 'POST',
+      body: JSON.stringify({ jql }),
+    }, tenant);
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(
-        `Failed to fetch issue ${issueKey}: ${response.status} ${errorText}`
+        `Failed to count issues: ${response.status} ${errorText}`
       );
     }
 
-    const issue = await response.json();
-    console.log(`Successfully fetched issue: ${issueKey}`);
-    return issue as JiraIssue;
+    const result = (await response.json()) as { count: number };
+    return result.count;
   } catch (error) {
-    console.error(`Error fetching issue ${issueKey}:`, error);
+    log.error(`Error counting issues (${jql})`, { error });
     throw error;
   }
 }
 
 /**
- * Get existing subtasks for a parent issue
+ * Get the auto-generated subtasks of a parent issue, with their labels
+ * The parent's embedded subtask list never carries labels, so the children are searched for
  * @param issueKey - Parent issue key
- * @param env - Environment variables
- * @returns Array of subtask issues
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Auto-generated subtask issues
  */
-export async function getSubtasks(issueKey: string, env: Env): Promise<any[]> {
+export async function getSubtasks(issueKey: string, tenant: TenantContext, log: Logger = logger): Promise<JiraIssue[]> {
   try {
-    const issue = await getIssue(issueKey, env);
-    return issue.fields.subtasks || [];
+    const subtasks: JiraIssue[] = [];
+    let nextPageToken: string | undefined;
+    do {
+      const page = await searchIssues(`parent = ${issueKey} AND labels = "${AUTO_GENERATED_LABEL}"`, {
+        fields: ['labels'],
+        maxResults: 100,
+        nextPageToken,
+      }, tenant, log);
+      subtasks.push(...page.issues);
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken);
+    return subtasks;
   } catch (error) {
-    console.error(`Error fetching subtasks for ${issueKey}:`, error);
+    log.error(`Error fetching subtasks for ${issueKey}`, { error });
     throw error;
   }
 }
 
+/**
+ * Build the issue creation payload createSubtask sends to Jira
+ * @param parentKey - Parent issue key
+ * @param subtaskData - Subtask input data
+ * @returns Request body for POST /rest/api/3/issue
+ */
+export function buildSubtaskPayload(parentKey: string, subtaskData: SubtaskInput): { fields: Record<string, any> } {
+  const projectKey = parentKey.split('-')[0];
+
+  // Construct subtask creation payload - convert markdown descriptions to ADF
+  return {
+    fields: {
+      project: {
+        key: projectKey,
+      },
+      parent: {
+        key: parentKey,
+      },
+      summary: subtaskData.summary,
+      description: toADF(subtaskData.description),
+      issuetype: {
+        name: 'Subtask', // Standard Jira subtask type
+      },
+      labels: subtaskData.labels,
+      ...(subtaskData.assigneeAccountId && { assignee: { accountId: subtaskData.assigneeAccountId } }),
+      ...subtaskData.fields,
+    },
+  };
+}
+
 /**
  * Create a new subtask under a parent issue
  * @param parentKey - Parent issue key
  * @param subtaskData - Subtask input data
- * @param env - Environment variables
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
  * @returns Created subtask response with key and ID
  */
 export async function createSubtask(
   parentKey: string,
   subtaskData: SubtaskInput,
-  env: Env
+  tenant: TenantContext,
+  log: Logger = logger
 ): Promise<CreateSubtaskResponse> {
   try {
-    // Get parent issue to extract project key
-    const parentIssue = await getIssue(parentKey, env);
-    const projectKey = parentKey.split('-')[0];
+    const payload = buildSubtaskPayload(parentKey, subtaskData);
 
-    // Construct subtask creation payload - convert markdown description to ADF
-    const payload = {
-      fields: {
-        project: {
-          key: projectKey,
-        },
-        parent: {
-          key: parentKey,
-        },
-        summary: subtaskData.summary,
-        description: markdownToADF(subtaskData.description),
-        issuetype: {
-          name: 'Subtask', // Standard Jira subtask type
-        },
-        labels: subtaskData.labels,
-      },
-    };
-
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/issue`;
-    const response = await fetch(url, {
+    const path = `/rest/api/3/issue`;
+    const response = await jiraFetch(path, {
       method: 'POST',
-      headers: {
-        Authorization: getAuthHeader(env),
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify(payload),
-    });
+    }, tenant);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -296,12 +276,12 @@ export async function createSubtask(
     }
 
     const result = (await response.json()) as CreateSubtaskResponse;
-    console.log(
+    log.info(
       `Successfully created ${subtaskData.subtaskType} subtask: ${result.key}`
     );
     return result;
   } catch (error) {
-    console.error('Error creating subtask:', error);
+    log.error('Error creating subtask', { error });
     throw error;
   }
 }
@@ -309,17 +289,19 @@ export async function createSubtask(
 /**
  * Update issue description with AI-generated content
  * @param issueKey - Issue key to update
- * @param description - New description content (Markdown)
- * @param env - Environment variables
+ * @param description - New description content (Markdown or ADF)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
  */
 export async function updateIssueDescription(
   issueKey: string,
-  description: string,
-  env: Env
+  description: string | AdfDocument,
+  tenant: TenantContext,
+  log: Logger = logger
 ): Promise<void> {
   try {
     // Convert Markdown to Jira ADF format
-    const adfDescription = markdownToADF(description);
+    const adfDescription = toADF(description);
 
     const payload = {
       fields: {
@@ -327,15 +309,11 @@ export async function updateIssueDescription(
       },
     };
 
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/issue/${issueKey}`;
-    const response = await fetch(url, {
+    const path = `/rest/api/3/issue/${issueKey}`;
+    const response = await jiraFetch(path, {
       method: 'PUT',
-      headers: {
-        Authorization: getAuthHeader(env),
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify(payload),
-    });
+    }, tenant);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -344,39 +322,316 @@ export async function updateIssueDescription(
       );
     }
 
-    console.log(`Successfully updated description for issue: ${issueKey}`);
+    log.info(`Successfully updated description for issue: ${issueKey}`);
   } catch (error) {
-    console.error(`Error updating issue ${issueKey}:`, error);
+    log.error(`Error updating issue ${issueKey}`, { error });
     throw error;
   }
 }
 
 /**
- * Check if subtasks with specific labels already exist
- * Used for idempotency
+ * Find the auto-generated subtask carrying the type's idempotency label
+ */
+function findGeneratedSubtask(subtasks: JiraIssue[], subtaskType: SubtaskType): JiraIssue | undefined {
+  const { idempotencyLabel } = getSubtaskTypeConfig(subtaskType);
+  return subtasks.find(
+    (subtask) =>
+      subtask.fields.labels?.includes(AUTO_GENERATED_LABEL) &&
+      subtask.fields.labels?.includes(idempotencyLabel)
+  );
+}
+
+/**
+ * Find which of the given subtask types already exist under a parent issue
+ * Searches the parent's subtasks once instead of once per type
  * @param parentKey - Parent issue key
- * @param subtaskType - Type of subtask to check
- * @param env - Environment variables
- * @returns true if subtask already exists, false otherwise
+ * @param subtaskTypes - Types to check
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Map of types that already have an auto-generated subtask to that subtask's key
+ * @throws When the parent cannot be read - fails closed so errors never cause duplicates
  */
-export async function subtaskExists(
+export async function getExistingSubtaskTypes(
   parentKey: string,
-  subtaskType: SubtaskType,
-  env: Env
-): Promise<boolean> {
+  subtaskTypes: SubtaskType[],
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<Map<SubtaskType, string>> {
+  try {
+    const subtasks = await getSubtasks(parentKey, tenant, log);
+    const existing = new Map<SubtaskType, string>();
+    for (const type of subtaskTypes) {
+      const subtask = findGeneratedSubtask(subtasks, type);
+      if (subtask) {
+        existing.set(type, subtask.key);
+      }
+    }
+    return existing;
+  } catch (error) {
+    log.error(`Error checking subtask existence for ${parentKey}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Add a comment to an issue
+ * @param issueKey - Issue key to comment on
+ * @param body - Comment content (Markdown or ADF)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ */
+export async function addComment(
+  issueKey: string,
+  body: string | AdfDocument,
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<void> {
+  try {
+    const path = `/rest/api/3/issue/${issueKey}/comment`;
+    const response = await jiraFetch(path, {
+      method: 'POST',
+      body: JSON.stringify({ body: toADF(body) }),
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to comment on ${issueKey}: ${response.status} ${errorText}`
+      );
+    }
+
+    log.info(`Successfully added comment to issue: ${issueKey}`);
+  } catch (error) {
+    log.error(`Error commenting on ${issueKey}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Add labels to an issue, keeping existing ones
+ * @param issueKey - Issue key to update
+ * @param labels - Labels to add
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ */
+export async function addLabels(
+  issueKey: string,
+  labels: string[],
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<void> {
+  try {
+    const path = `/rest/api/3/issue/${issueKey}`;
+    const response = await jiraFetch(path, {
+      method: 'PUT',
+      body: JSON.stringify({
+        update: { labels: labels.map((label) => ({ add: label })) },
+      }),
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to add labels to ${issueKey}: ${response.status} ${errorText}`
+      );
+    }
+  } catch (error) {
+    log.error(`Error adding labels to ${issueKey}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Link two issues
+ * @param linkType - Link type name (e.g. "Blocks")
+ * @param inwardKey - Issue on the inward side (e.g. the one that "is blocked by")
+ * @param outwardKey - Issue on the outward side (e.g. the one that "blocks")
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ */
+export async function linkIssues(
+  linkType: string,
+  inwardKey: string,
+  outwardKey: string,
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<void> {
+  try {
+    const path = `/rest/api/3/issueLink`;
+    const response = await jiraFetch(path, {
+      method: 'POST',
+      body: JSON.stringify({
+        type: { name: linkType },
+        inwardIssue: { key: inwardKey },
+        outwardIssue: { key: outwardKey },
+      }),
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to link ${inwardKey} and ${outwardKey}: ${response.status} ${errorText}`
+      );
+    }
+
+    log.info(`Successfully linked ${outwardKey} ${linkType} ${inwardKey}`);
+  } catch (error) {
+    log.error(`Error linking ${inwardKey} and ${outwardKey}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Get the account IDs of the active members of a Jira group, following pages until isLast
+ * @param groupName - Group name
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Account IDs
+ */
+export async function getGroupMembers(groupName: string, tenant: TenantContext, log: Logger = logger): Promise<string[]> {
+  try {
+    const members: string[] = [];
+    let startAt = 0;
+    let isLast = false;
+    while (!isLast) {
+      // Jira caps group member pages at 50
+      const path = `/rest/api/3/group/member?groupname=${encodeURIComponent(groupName)}`
+        + `&startAt=${startAt}&maxResults=50`;
+      const response = await jiraFetch(path, {
+        method: 'GET',
+      }, tenant);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to fetch members of ${groupName}: ${response.status} ${errorText}`
+        );
+      }
+
+      const page = (await response.json()) as {
+        values: Array<{ accountId: string; active?: boolean }>;
+        isLast?: boolean;
+      };
+      members.push(...page.values.filter((user) => user.active !== false).map((user) => user.accountId));
+      startAt += page.values.length;
+      // Stop on an empty page too, in case isLast is never set
+      isLast = page.isLast !== false || page.values.length === 0;
+    }
+    return members;
+  } catch (error) {
+    log.error(`Error fetching members of ${groupName}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Move an issue to a status through the first transition leading to it
+ * @param issueKey - Issue key to transition
+ * @param statusName - Target status name (case-insensitive)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @throws When no available transition leads to the status
+ */
+export async function transitionIssue(
+  issueKey: string,
+  statusName: string,
+  tenant: TenantContext,
+  log: Logger = logger
+): Promise<void> {
   try {
-    const subtasks = await getSubtasks(parentKey, env);
-    const label =
-      subtaskType === SubtaskType.BACKEND ? 'backend' : 'frontend';
-
-    // Check if any subtask has the auto-generated label and type-specific label
-    return subtasks.some(
-      (subtask) =>
-        subtask.fields.labels?.includes('auto-generated') &&
-        subtask.fields.labels?.includes(label)
+    const path = `/rest/api/3/issue/${issueKey}/transitions`;
+    const listResponse = await jiraFetch(path, {
+      method: 'GET',
+    }, tenant);
+
+    if (!listResponse.ok) {
+      const errorText = await listResponse.text();
+      throw new Error(
+        `Failed to fetch transitions for ${issueKey}: ${listResponse.status} ${errorText}`
+      );
+    }
+
+    const { transitions } = (await listResponse.json()) as {
+      transitions: Array<{ id: string; name: string; to: { name: string } }>;
+    };
+    const transition = transitions.find(
+      (candidate) => candidate.to.name.toLowerCase() === statusName.toLowerCase()
     );
+    if (!transition) {
+      throw new Error(`No transition from ${issueKey} to "${statusName}"`);
+    }
+
+    const response = await jiraFetch(path, {
+      method: 'POST',
+      body: JSON.stringify({ transition: { id: transition.id } }),
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to transition ${issueKey}: ${response.status} ${errorText}`
+      );
+    }
+
+    log.info(`Successfully transitioned ${issueKey} to ${statusName}`);
+  } catch (error) {
+    log.error(`Error transitioning ${issueKey}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * List all system and custom fields (used to resolve field names to IDs)
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Field metadata
+ */
+export async function getFields(tenant: TenantContext, log: Logger = logger): Promise<JiraField[]> {
+  try {
+    const path = `/rest/api/3/field`;
+    const response = await jiraFetch(path, {
+      method: 'GET',
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to fetch fields: ${response.status} ${errorText}`
+      );
+    }
+
+    return (await response.json()) as JiraField[];
+  } catch (error) {
+    log.error('Error fetching fields', { error });
+    throw error;
+  }
+}
+
+/**
+ * Get the names of the Jira groups a user belongs to
+ * @param accountId - Atlassian account ID
+ * @param tenant - Tenant context (Jira site and credentials)
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Group names
+ */
+export async function getUserGroups(accountId: string, tenant: TenantContext, log: Logger = logger): Promise<string[]> {
+  try {
+    const path = `/rest/api/3/user/groups?accountId=${encodeURIComponent(accountId)}`;
+    const response = await jiraFetch(path, {
+      method: 'GET',
+    }, tenant);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to fetch groups for ${accountId}: ${response.status} ${errorText}`
+      );
+    }
+
+    const groups = (await response.json()) as Array<{ name: string }>;
+    return groups.map((group) => group.name);
   } catch (error) {
-    console.error(`Error checking subtask existence for ${parentKey}:`, error);
-    return false;
+    log.error(`Error fetching groups for ${accountId}`, { error });
+    throw error;
   }
 }
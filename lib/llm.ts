@@ -0,0 +1,317 @@
+/**
+ * Pluggable LLM provider layer (Gemini, OpenAI-compatible, Ollama)
+ * Provider, model and generation parameters are selected by env config
+ */
+
+import { LLMProviderName, LLMResponse } from './types';
+import { Logger, logger } from './logger';
+import { incrementCounter, observeHistogram } from './metrics';
+
+export interface LLMEnv {
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  LLM_FALLBACK_PROVIDER?: string;
+  LLM_FALLBACK_MODEL?: string;
+  LLM_TEMPERATURE?: string;
+  LLM_MAX_TOKENS?: string;
+  LLM_JSON_MAX_TOKENS?: string;
+  LLM_TIMEOUT_MS?: string;
+  GEMINI_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_BASE_URL?: string;
+}
+
+interface ProviderSettings {
+  name: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  jsonMaxTokens: number; // JSON specs are long and useless when cut off
+  timeoutMs: number;
+  apiKey?: string;
+  baseUrl: string;
+}
+
+export interface LLMOptions {
+  json?: boolean; // ask the provider for a JSON-only response
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(system: string, prompt: string, options?: LLMOptions, log?: Logger): Promise<LLMResponse>;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { model: string; baseUrl: string }> = {
+  gemini: {
+    model: 'gemini-2.5-flash-lite',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  },
+  openai: {
+    model: 'gpt-4o-mini',
+    baseUrl: 'https://api.openai.com/v1',
+  },
+  ollama: {
+    model: 'llama3.1',
+    baseUrl: 'http://localhost:11434',
+  },
+};
+
+const DEFAULT_TEMPERATURE = 0.5;
+const DEFAULT_MAX_TOKENS = 1000;
+const DEFAULT_JSON_MAX_TOKENS = 4096;
+const DEFAULT_TIMEOUT_MS = 25000;
+
+/**
+ * Build the configured provider chain: primary first, then the optional fallback
+ * @param env - Environment variables
+ * @returns Providers in the order they should be tried
+ */
+export function getProviders(env: LLMEnv): LLMProvider[] {
+  const primary = parseProviderName(env.LLM_PROVIDER || 'gemini');
+  const providers = [createProvider(resolveSettings(primary, env.LLM_MODEL, env))];
+
+  if (env.LLM_FALLBACK_PROVIDER) {
+    const fallback = parseProviderName(env.LLM_FALLBACK_PROVIDER);
+    providers.push(createProvider(resolveSettings(fallback, env.LLM_FALLBACK_MODEL, env)));
+  }
+
+  return providers;
+}
+
+/**
+ * Run a completion against the primary provider, falling back on error or timeout
+ * @param system - System instructions
+ * @param prompt - User prompt
+ * @param env - Environment variables
+ * @param options - Response format options
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Text and usage from the first provider that succeeds
+ */
+export async function complete(
+  system: string,
+  prompt: string,
+  env: LLMEnv,
+  options: LLMOptions = {},
+  log: Logger = logger
+): Promise<LLMResponse> {
+  const providers = getProviders(env);
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    const labels = { provider: provider.name, model: provider.model };
+    const startedAt = Date.now();
+    try {
+      const response = await provider.complete(system, prompt, options, log);
+      observeHistogram('board_helper_llm_request_duration_seconds', (Date.now() - startedAt) / 1000, { ...labels, status: 'ok' });
+      if (response.usage) {
+        incrementCounter('board_helper_llm_tokens_total', { ...labels, direction: 'input' }, response.usage.inputTokens);
+        incrementCounter('board_helper_llm_tokens_total', { ...labels, direction: 'output' }, response.usage.outputTokens);
+      }
+      return response;
+    } catch (error) {
+      lastError = error;
+      observeHistogram('board_helper_llm_request_duration_seconds', (Date.now() - startedAt) / 1000, { ...labels, status: 'error' });
+      log.error(`LLM provider ${provider.name} (${provider.model}) failed`, { error });
+    }
+  }
+
+  throw lastError;
+}
+
+function parseProviderName(value: string): LLMProviderName {
+  const name = value.trim().toLowerCase();
+  if (name !== 'gemini' && name !== 'openai' && name !== 'ollama') {
+    throw new Error(`Unknown LLM provider: ${value}`);
+  }
+  return name;
+}
+
+function resolveSettings(name: LLMProviderName, model: string | undefined, env: LLMEnv): ProviderSettings {
+  const defaults = PROVIDER_DEFAULTS[name];
+  const apiKeys: Record<LLMProviderName, string | undefined> = {
+    gemini: env.GEMINI_API_KEY,
+    openai: env.OPENAI_API_KEY,
+    ollama: undefined,
+  };
+  const baseUrls: Record<LLMProviderName, string | undefined> = {
+    gemini: undefined,
+    openai: env.OPENAI_BASE_URL,
+    ollama: env.OLLAMA_BASE_URL,
+  };
+
+  return {
+    name,
+    model: model || defaults.model,
+    temperature: parseNumber(env.LLM_TEMPERATURE, DEFAULT_TEMPERATURE),
+    maxTokens: parseNumber(env.LLM_MAX_TOKENS, DEFAULT_MAX_TOKENS),
+    jsonMaxTokens: parseNumber(env.LLM_JSON_MAX_TOKENS, DEFAULT_JSON_MAX_TOKENS),
+    timeoutMs: parseNumber(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    apiKey: apiKeys[name],
+    baseUrl: (baseUrls[name] || defaults.baseUrl).replace(/\/+$/, ''),
+  };
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function getMaxTokens(settings: ProviderSettings, options: LLMOptions): number {
+  return options.json ? settings.jsonMaxTokens : settings.maxTokens;
+}
+
+function createProvider(settings: ProviderSettings): LLMProvider {
+  const call = { gemini: callGemini, openai: callOpenAI, ollama: callOllama }[settings.name];
+  return {
+    name: settings.name,
+    model: settings.model,
+    complete: (system, prompt, options = {}, log = logger) => call(system, prompt, settings, options, log),
+  };
+}
+
+async function callGemini(
+  system: string,
+  prompt: string,
+  settings: ProviderSettings,
+  options: LLMOptions,
+  log: Logger
+): Promise<LLMResponse> {
+  if (!settings.apiKey) {
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
+
+  const url = `${settings.baseUrl}/models/${settings.model}:generateContent?key=${settings.apiKey}`;
+  const data = await postJson(url, {
+    contents: [{ parts: [{ text: system + '\n\n' + prompt }] }],
+    generationConfig: {
+      temperature: settings.temperature,
+      maxOutputTokens: getMaxTokens(settings, options),
+      ...(options.json ? { responseMimeType: 'application/json' } : {}),
+    },
+  }, {}, settings, log);
+
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) {
+    throw new Error('Invalid response from Gemini API');
+  }
+
+  return {
+    text,
+    provider: settings.name,
+    model: settings.model,
+    usage: data.usageMetadata && {
+      inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+      outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+    },
+  };
+}
+
+async function callOpenAI(
+  system: string,
+  prompt: string,
+  settings: ProviderSettings,
+  options: LLMOptions,
+  log: Logger
+): Promise<LLMResponse> {
+  const headers: Record<string, string> = settings.apiKey
+    ? { Authorization: `Bearer ${settings.apiKey}` }
+    : {};
+  const data = await postJson(`${settings.baseUrl}/chat/completions`, {
+    model: settings.model,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt },
+    ],
+    temperature: settings.temperature,
+    max_tokens: getMaxTokens(settings, options),
+    ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+  }, headers, settings, log);
+
+  const text = data.choices?.[0]?.message?.content;
+  if (!text) {
+    throw new Error('Invalid response from OpenAI-compatible API');
+  }
+
+  return {
+    text,
+    provider: settings.name,
+    model: settings.model,
+    usage: data.usage && {
+      inputTokens: data.usage.prompt_tokens ?? 0,
+      outputTokens: data.usage.completion_tokens ?? 0,
+    },
+  };
+}
+
+async function callOllama(
+  system: string,
+  prompt: string,
+  settings: ProviderSettings,
+  options: LLMOptions,
+  log: Logger
+): Promise<LLMResponse> {
+  const data = await postJson(`${settings.baseUrl}/api/chat`, {
+    model: settings.model,
+    stream: false,
+    ...(options.json ? { format: 'json' } : {}),
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt },
+    ],
+    options: { temperature: settings.temperature, num_predict: getMaxTokens(settings, options) },
+  }, {}, settings, log);
+
+  const text = data.message?.content;
+  if (!text) {
+    throw new Error('Invalid response from Ollama API');
+  }
+
+  return {
+    text,
+    provider: settings.name,
+    model: settings.model,
+    usage: {
+      inputTokens: data.prompt_eval_count ?? 0,
+      outputTokens: data.eval_count ?? 0,
+    },
+  };
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  settings: ProviderSettings,
+  log: Logger
+): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), settings.timeoutMs);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${settings.name} API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    log.info(`${settings.name} request completed`, { model: settings.model, durationMs: Date.now() - startedAt });
+    return data;
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`${settings.name} API timeout - request took too long`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
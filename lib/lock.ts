@@ -0,0 +1,190 @@
+/**
+ * Per-story lock and run records, backed by a Durable Object
+ * One StoryLock instance exists per issue key, so acquire/release are serialized
+ * and race-free across concurrent webhook deliveries
+ */
+
+import { PipelineResult, RunRecord, StoryJob } from './types';
+import { scopeKey } from './tenants';
+
+interface Env {
+  STORY_LOCKS: DurableObjectNamespace;
+  TENANT_ID?: string;
+}
+
+// How long a run may hold the lock before another job may take over
+const LEASE_MS = 5 * 60 * 1000;
+
+// How long a completed run marks later deliveries of the same trigger as duplicates
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type AcquireResult =
+  | { status: 'acquired'; record: RunRecord }
+  | { status: 'duplicate'; record: RunRecord } // this trigger event already completed
+  | { status: 'in_progress'; record: RunRecord } // this trigger event is being processed
+  | { status: 'locked'; record: RunRecord }; // another run holds the story
+
+interface LockState {
+  runKey: string;
+  jobId: string;
+  expiresAt: number;
+}
+
+/**
+ * Durable Object holding the lock and run records for one story
+ */
+export class StoryLock implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/acquire') {
+      const { issueKey, runKey, jobId } = await request.json<{ issueKey: string; runKey: string; jobId: string }>();
+      return Response.json(await this.acquire(issueKey, runKey, jobId));
+    }
+    if (request.method === 'POST' && url.pathname === '/release') {
+      const body = await request.json<{ runKey: string; jobId: string; result?: PipelineResult; error?: string }>();
+      return Response.json(await this.release(body.runKey, body.jobId, body.result, body.error));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async acquire(issueKey: string, runKey: string, jobId: string): Promise<AcquireResult> {
+    const now = Date.now();
+    const existing = await this.state.storage.get<RunRecord>(`run:${runKey}`);
+
+    if (existing?.status === 'completed' && now - Date.parse(existing.finishedAt!) < DUPLICATE_WINDOW_MS) {
+      return { status: 'duplicate', record: existing };
+    }
+    if (existing?.status === 'in_progress' && existing.jobId !== jobId && existing.leaseExpiresAt > now) {
+      return { status: 'in_progress', record: existing };
+    }
+
+    const lock = await this.state.storage.get<LockState>('lock');
+    if (lock && lock.jobId !== jobId && lock.expiresAt > now) {
+      const holder = await this.state.storage.get<RunRecord>(`run:${lock.runKey}`);
+      return { status: 'locked', record: holder! };
+    }
+
+    const record: RunRecord = {
+      issueKey,
+      runKey,
+      jobId,
+      status: 'in_progress',
+      attempts: (existing?.status === 'completed' ? 0 : existing?.attempts ?? 0) + 1,
+      startedAt: new Date(now).toISOString(),
+      leaseExpiresAt: now + LEASE_MS,
+    };
+    await this.state.storage.put({
+      lock: { runKey, jobId, expiresAt: record.leaseExpiresAt } satisfies LockState,
+      [`run:${runKey}`]: record,
+    });
+    await this.pruneRuns(now);
+    return { status: 'acquired', record };
+  }
+
+  /**
+   * Drop finished run records that are past the duplicate window
+   */
+  private async pruneRuns(now: number): Promise<void> {
+    const runs = await this.state.storage.list<RunRecord>({ prefix: 'run:' });
+    const expired = [...runs.entries()]
+      .filter(([, run]) => run.finishedAt && now - Date.parse(run.finishedAt) >= DUPLICATE_WINDOW_MS)
+      .map(([key]) => key);
+    if (expired.length > 0) {
+      await this.state.storage.delete(expired);
+    }
+  }
+
+  private async release(
+    runKey: string,
+    jobId: string,
+    result?: PipelineResult,
+    error?: string
+  ): Promise<RunRecord | null> {
+    const record = await this.state.storage.get<RunRecord>(`run:${runKey}`);
+    if (!record || record.jobId !== jobId) {
+      return null;
+    }
+
+    const updated: RunRecord = {
+      ...record,
+      status: error ? 'failed' : 'completed',
+      finishedAt: new Date().toISOString(),
+      result,
+      error,
+    };
+    await this.state.storage.put(`run:${runKey}`, updated);
+
+    const lock = await this.state.storage.get<LockState>('lock');
+    if (lock?.jobId === jobId) {
+      await this.state.storage.delete('lock');
+    }
+    return updated;
+  }
+}
+
+/**
+ * Run key identifying one trigger event for a story
+ */
+function getRunKey(job: StoryJob): string {
+  return `${job.trigger}#${job.deliveryId}`;
+}
+
+/**
+ * Try to take the story lock for a job
+ * @param job - Story job
+ * @param env - Environment variables
+ * @returns Acquire outcome with the relevant run record
+ */
+export async function acquireStoryLock(job: StoryJob, env: Env): Promise<AcquireResult> {
+  const response = await getStub(job.issueKey, env).fetch('https://story-lock/acquire', {
+    method: 'POST',
+    body: JSON.stringify({ issueKey: job.issueKey, runKey: getRunKey(job), jobId: job.id }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to acquire lock for ${job.issueKey}: ${response.status}`);
+  }
+  return response.json<AcquireResult>();
+}
+
+/**
+ * Release the story lock and record the run outcome
+ * @param job - Story job
+ * @param outcome - Pipeline result on success, or the error on failure
+ * @param env - Environment variables
+ */
+export async function releaseStoryLock(
+  job: StoryJob,
+  outcome: { result?: PipelineResult; error?: unknown },
+  env: Env
+): Promise<void> {
+  const error = outcome.error === undefined
+    ? undefined
+    : outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+
+  const response = await getStub(job.issueKey, env).fetch('https://story-lock/release', {
+    method: 'POST',
+    body: JSON.stringify({
+      runKey: getRunKey(job),
+      jobId: job.id,
+      result: outcome.result && withoutGenerations(outcome.result),
+      error,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to release lock for ${job.issueKey}: ${response.status}`);
+  }
+}
+
+function getStub(issueKey: string, env: Env): DurableObjectStub {
+  return env.STORY_LOCKS.get(env.STORY_LOCKS.idFromName(scopeKey(issueKey, env)));
+}
+
+// Prompts and model output belong in the run history, not in lock records
+function withoutGenerations(result: PipelineResult): PipelineResult {
+  const { generations, ...rest } = result;
+  return rest;
+}
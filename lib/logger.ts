@@ -0,0 +1,71 @@
+/**
+ * Structured logging: one JSON line per entry, tagged with the correlation ID
+ * that links a webhook request to the queue job and the Jira and LLM calls it makes
+ */
+
+type LogLevel = 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  correlationId?: string;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds the given fields to every entry */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Create a logger
+ * @param correlationId - ID shared by every entry of one request or job
+ * @param fields - Fields added to every entry
+ * @returns Logger
+ */
+export function createLogger(correlationId?: string, fields: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, extra: LogFields = {}) => {
+    const entry: LogFields = {
+      level,
+      time: new Date().toISOString(),
+      message,
+      ...(correlationId && { correlationId }),
+      ...fields,
+    };
+    for (const [key, value] of Object.entries(extra)) {
+      entry[key] = value instanceof Error ? serializeError(value) : value;
+    }
+
+    const line = JSON.stringify(entry);
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    correlationId,
+    info: (message, extra) => write('info', message, extra),
+    warn: (message, extra) => write('warn', message, extra),
+    error: (message, extra) => write('error', message, extra),
+    child: (extra) => createLogger(correlationId, { ...fields, ...extra }),
+  };
+}
+
+/**
+ * Correlation ID for an incoming request: the caller's X-Correlation-ID or
+ * X-Request-ID header when present, otherwise a new UUID
+ */
+export function getCorrelationId(request: Request): string {
+  const header = request.headers.get('x-correlation-id') || request.headers.get('x-request-id');
+  return header && /^[\w.:-]{1,128}$/.test(header) ? header : crypto.randomUUID();
+}
+
+// Logger for code paths without a request or job (module defaults)
+export const logger = createLogger();
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
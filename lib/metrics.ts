@@ -0,0 +1,162 @@
+/**
+ * Counters and histograms exposed on /metrics in Prometheus text format
+ * Each Worker instance buffers samples in memory and adds them to the D1
+ * `metrics` table once per request or queue batch, so the endpoint reports
+ * totals across instances (schema in migrations/0002_metrics.sql).
+ */
+
+import { logger } from './logger';
+
+interface Env {
+  DB: D1Database;
+}
+
+type Labels = Record<string, string | number>;
+
+interface MetricDefinition {
+  type: 'counter' | 'histogram';
+  help: string;
+  buckets?: number[];
+}
+
+// Seconds; covers fast Jira calls up to slow LLM completions
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 25, 60];
+
+const METRICS = {
+  board_helper_runs_total: {
+    type: 'counter',
+    help: 'Story jobs finished, by outcome',
+  },
+  board_helper_run_duration_seconds: {
+    type: 'histogram',
+    help: 'Story job duration per attempt',
+  },
+  board_helper_job_retries_total: {
+    type: 'counter',
+    help: 'Story jobs retried after a failed attempt',
+  },
+  board_helper_llm_request_duration_seconds: {
+    type: 'histogram',
+    help: 'LLM completion latency, by provider, model and status',
+  },
+  board_helper_llm_tokens_total: {
+    type: 'counter',
+    help: 'LLM tokens used, by provider, model and direction',
+  },
+  board_helper_jira_requests_total: {
+    type: 'counter',
+    help: 'Jira API responses, by method and status code (0 = network error)',
+  },
+  board_helper_webhooks_total: {
+    type: 'counter',
+    help: 'Webhook requests, by response status',
+  },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRICS;
+
+// Samples recorded since the last flush, keyed by sample name and labels
+const pending = new Map<string, { name: string; labels: string; value: number }>();
+
+/**
+ * Increment a counter
+ * @param name - Counter name
+ * @param labels - Label values
+ * @param value - Amount to add (default 1)
+ */
+export function incrementCounter(name: MetricName, labels: Labels = {}, value = 1): void {
+  addSample(name, serializeLabels(labels), value);
+}
+
+/**
+ * Record an observation in a histogram
+ * @param name - Histogram name
+ * @param value - Observed value (seconds for durations)
+ * @param labels - Label values
+ */
+export function observeHistogram(name: MetricName, value: number, labels: Labels = {}): void {
+  const definition: MetricDefinition = METRICS[name];
+  for (const bucket of definition.buckets || DEFAULT_BUCKETS) {
+    if (value <= bucket) {
+      addSample(`${name}_bucket`, serializeLabels({ ...labels, le: bucket }), 1);
+    }
+  }
+  addSample(`${name}_bucket`, serializeLabels({ ...labels, le: '+Inf' }), 1);
+  addSample(`${name}_sum`, serializeLabels(labels), value);
+  addSample(`${name}_count`, serializeLabels(labels), 1);
+}
+
+/**
+ * Add the buffered samples to D1
+ * Best-effort: errors are logged and the samples dropped, never thrown
+ * @param env - Environment variables
+ */
+export async function flushMetrics(env: Env): Promise<void> {
+  if (pending.size === 0) {
+    return;
+  }
+  const samples = [...pending.values()];
+  pending.clear();
+
+  const statement = env.DB.prepare(
+    `INSERT INTO metrics (name, labels, value) VALUES (?, ?, ?)
+     ON CONFLICT (name, labels) DO UPDATE SET value = value + excluded.value`
+  );
+  try {
+    await env.DB.batch(samples.map((sample) => statement.bind(sample.name, sample.labels, sample.value)));
+  } catch (error) {
+    logger.error('Error flushing metrics', { error, samples: samples.length });
+  }
+}
+
+/**
+ * Render all metrics in Prometheus text exposition format
+ * @param env - Environment variables
+ * @returns Metrics text
+ */
+export async function renderMetrics(env: Env): Promise<string> {
+  const { results } = await env.DB.prepare('SELECT name, labels, value FROM metrics')
+    .all<{ name: string; labels: string; value: number }>();
+
+  const lines: string[] = [];
+  for (const [name, definition] of Object.entries(METRICS) as Array<[MetricName, MetricDefinition]>) {
+    const samples = results
+      .filter((row) => row.name === name || (definition.type === 'histogram' && row.name.startsWith(`${name}_`)))
+      .sort(compareSamples);
+
+    lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+    for (const sample of samples) {
+      lines.push(`${sample.name}${sample.labels ? `{${sample.labels}}` : ''} ${sample.value}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function addSample(name: string, labels: string, value: number): void {
+  const key = `${name}|${labels}`;
+  const sample = pending.get(key);
+  if (sample) {
+    sample.value += value;
+  } else {
+    pending.set(key, { name, labels, value });
+  }
+}
+
+function serializeLabels(labels: Labels): string {
+  return Object.keys(labels)
+    .sort((a, b) => (a === 'le' ? 1 : b === 'le' ? -1 : a.localeCompare(b)))
+    .map((key) => `${key}="${String(labels[key]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+/**
+ * Group samples by name and label set, with histogram buckets in increasing `le` order
+ */
+function compareSamples(a: { name: string; labels: string }, b: { name: string; labels: string }): number {
+  const le = (labels: string) => {
+    const match = labels.match(/(?:^|,)le="([^"]+)"$/);
+    return match ? (match[1] === '+Inf' ? Infinity : Number(match[1])) : 0;
+  };
+  const series = (labels: string) => labels.replace(/,?le="[^"]+"$/, '');
+  return a.name.localeCompare(b.name) || series(a.labels).localeCompare(series(b.labels)) || le(a.labels) - le(b.labels);
+}
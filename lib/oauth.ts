@@ -0,0 +1,333 @@
+/**
+ * Jira OAuth 2.0 (3LO) connection
+ * An admin authorizes the app once (/oauth/start -> Atlassian consent ->
+ * /oauth/callback); tokens are stored encrypted in KV per site and Jira calls
+ * go to the cloud-id API base with a bearer token, refreshed when it expires
+ * or Jira answers 401. Without a connection, Jira calls use Basic auth
+ * (JIRA_EMAIL + JIRA_API_TOKEN).
+ */
+
+import { decryptString, encryptString } from './crypto';
+import { scopeKey } from './tenants';
+
+export interface JiraAuthEnv {
+  JIRA_BASE_URL: string;
+  JIRA_EMAIL: string;
+  JIRA_API_TOKEN: string;
+  JIRA_OAUTH_CLIENT_ID?: string;
+  JIRA_OAUTH_CLIENT_SECRET?: string;
+  JIRA_OAUTH_SCOPES?: string;
+  TOKEN_ENCRYPTION_KEY?: string;
+  TENANT_ID?: string;
+  STATE: KVNamespace;
+}
+
+// Credentials for one Jira request
+export interface JiraAuth {
+  baseUrl: string;
+  authorization: string;
+  oauth: boolean;
+}
+
+// Stored (encrypted) per site
+interface OAuthConnection {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms since epoch
+  cloudId: string;
+  siteUrl: string;
+  scopes: string;
+  connectedAt: string;
+}
+
+const AUTHORIZE_URL = 'https://auth.atlassian.com/authorize';
+const TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+const RESOURCES_URL = 'https://api.atlassian.com/oauth/token/accessible-resources';
+const API_BASE_URL = 'https://api.atlassian.com/ex/jira';
+
+// offline_access is required for refresh tokens
+const DEFAULT_SCOPES = 'read:jira-work write:jira-work read:jira-user offline_access';
+
+const CONNECTION_KEY = 'jira-oauth';
+const STATE_PREFIX = 'oauth-state:';
+const STATE_TTL_SECONDS = 600;
+
+// Refresh this long before the access token expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// How long an instance trusts "no connection" before checking KV again
+const NO_CONNECTION_TTL_MS = 60 * 1000;
+
+// Decrypted connections per instance, keyed by the scoped KV key
+const connections = new Map<string, { connection: OAuthConnection | null; loadedAt: number }>();
+const refreshes = new Map<string, Promise<OAuthConnection>>();
+
+/**
+ * Start the authorization-code flow
+ * @param redirectUri - Callback URL registered for the OAuth app
+ * @param env - Environment variables (tenant-scoped to connect a tenant's site)
+ * @returns Atlassian consent URL to send the admin to
+ */
+export async function startOAuth(redirectUri: string, env: JiraAuthEnv): Promise<string> {
+  assertOAuthConfigured(env);
+
+  const state = crypto.randomUUID();
+  await env.STATE.put(STATE_PREFIX + state, JSON.stringify({ tenant: env.TENANT_ID ?? null }), {
+    expirationTtl: STATE_TTL_SECONDS,
+  });
+
+  const params = new URLSearchParams({
+    audience: 'api.atlassian.com',
+    client_id: env.JIRA_OAUTH_CLIENT_ID!,
+    scope: env.JIRA_OAUTH_SCOPES || DEFAULT_SCOPES,
+    redirect_uri: redirectUri,
+    state,
+    response_type: 'code',
+    prompt: 'consent',
+  });
+  return `${AUTHORIZE_URL}?${params}`;
+}
+
+/**
+ * Take the one-time state issued by startOAuth
+ * @param state - State from the callback
+ * @param env - Environment variables
+ * @returns Tenant the flow was started for (null for the global site), or undefined when the state is unknown or expired
+ */
+export async function consumeOAuthState(state: string, env: { STATE: KVNamespace }): Promise<string | null | undefined> {
+  const record = await env.STATE.get<{ tenant: string | null }>(STATE_PREFIX + state, 'json');
+  if (!record) {
+    return undefined;
+  }
+  await env.STATE.delete(STATE_PREFIX + state);
+  return record.tenant;
+}
+
+/**
+ * Exchange the authorization code, find the cloud ID of the site and store the tokens
+ * @param code - Authorization code from the callback
+ * @param redirectUri - Same redirect URI as in startOAuth
+ * @param env - Environment variables (scoped to the tenant from the state)
+ * @returns Connected site
+ */
+export async function completeOAuth(
+  code: string,
+  redirectUri: string,
+  env: JiraAuthEnv
+): Promise<{ siteUrl: string; cloudId: string; scopes: string }> {
+  assertOAuthConfigured(env);
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    client_id: env.JIRA_OAUTH_CLIENT_ID!,
+    client_secret: env.JIRA_OAUTH_CLIENT_SECRET!,
+    code,
+    redirect_uri: redirectUri,
+  });
+
+  const response = await fetch(RESOURCES_URL, {
+    headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to list authorized sites: ${response.status} ${await response.text()}`);
+  }
+  const resources = await response.json<Array<{ id: string; url: string; name: string }>>();
+  // Only the configured site: tokens for another site would send this tenant's calls to someone else's Jira
+  const siteUrl = normalizeSiteUrl(env.JIRA_BASE_URL);
+  const resource = siteUrl
+    ? resources.find((candidate) => normalizeSiteUrl(candidate.url) === siteUrl)
+    : (resources.length === 1 ? resources[0] : undefined);
+  if (!resource) {
+    throw new Error(siteUrl
+      ? `The authorization does not include ${env.JIRA_BASE_URL} (authorized: ${resources.map((candidate) => candidate.url).join(', ') || 'none'})`
+      : 'JIRA_BASE_URL is not configured and the authorization does not cover exactly one Jira site');
+  }
+
+  const connection: OAuthConnection = {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    cloudId: resource.id,
+    siteUrl: resource.url,
+    scopes: tokens.scope,
+    connectedAt: new Date().toISOString(),
+  };
+  await saveConnection(connection, env);
+  return { siteUrl: connection.siteUrl, cloudId: connection.cloudId, scopes: connection.scopes };
+}
+
+/**
+ * Connection status for the admin API (no tokens)
+ * @param env - Environment variables
+ * @returns Site, scopes and token expiry, or null when the site uses Basic auth
+ */
+export async function getOAuthStatus(
+  env: JiraAuthEnv
+): Promise<{ siteUrl: string; cloudId: string; scopes: string; expiresAt: string; connectedAt: string } | null> {
+  const connection = await loadConnection(env, true);
+  return connection && {
+    siteUrl: connection.siteUrl,
+    cloudId: connection.cloudId,
+    scopes: connection.scopes,
+    expiresAt: new Date(connection.expiresAt).toISOString(),
+    connectedAt: connection.connectedAt,
+  };
+}
+
+/**
+ * Remove the stored tokens; Jira calls fall back to Basic auth
+ * @param env - Environment variables
+ */
+export async function disconnectOAuth(env: JiraAuthEnv): Promise<void> {
+  const key = scopeKey(CONNECTION_KEY, env);
+  await env.STATE.delete(key);
+  connections.delete(key);
+}
+
+/**
+ * Credentials for a Jira request: OAuth when the site is connected, Basic auth otherwise
+ * @param env - Environment variables
+ * @returns API base URL and Authorization header value
+ */
+export async function getJiraAuth(env: JiraAuthEnv): Promise<JiraAuth> {
+  let connection = await loadConnection(env);
+  if (!connection) {
+    return {
+      baseUrl: env.JIRA_BASE_URL,
+      authorization: `Basic ${btoa(`${env.JIRA_EMAIL}:${env.JIRA_API_TOKEN}`)}`,
+      oauth: false,
+    };
+  }
+  if (isExpiring(connection)) {
+    // Another instance may have rotated the refresh token since this one cached it
+    connection = await loadConnection(env, true);
+    if (!connection) {
+      return getJiraAuth(env);
+    }
+    if (isExpiring(connection)) {
+      connection = await refreshConnection(connection, env);
+    }
+  }
+  return toAuth(connection);
+}
+
+/**
+ * New credentials after Jira rejected an OAuth access token with 401
+ * Uses a token another instance already refreshed when there is one, otherwise refreshes
+ * @param rejected - Credentials Jira rejected
+ * @param env - Environment variables
+ * @returns Credentials to retry with
+ */
+export async function refreshJiraAuth(rejected: JiraAuth, env: JiraAuthEnv): Promise<JiraAuth> {
+  const stored = await loadConnection(env, true);
+  if (!stored) {
+    return getJiraAuth(env);
+  }
+  if (toAuth(stored).authorization !== rejected.authorization) {
+    return toAuth(stored);
+  }
+  return toAuth(await refreshConnection(stored, env));
+}
+
+function isExpiring(connection: OAuthConnection): boolean {
+  return connection.expiresAt - EXPIRY_MARGIN_MS < Date.now();
+}
+
+function toAuth(connection: OAuthConnection): JiraAuth {
+  return {
+    baseUrl: `${API_BASE_URL}/${connection.cloudId}`,
+    authorization: `Bearer ${connection.accessToken}`,
+    oauth: true,
+  };
+}
+
+async function refreshConnection(connection: OAuthConnection, env: JiraAuthEnv): Promise<OAuthConnection> {
+  const key = scopeKey(CONNECTION_KEY, env);
+  const pending = refreshes.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = (async () => {
+    assertOAuthConfigured(env);
+    // Atlassian rotates refresh tokens: store the new one right away
+    const tokens = await requestTokens({
+      grant_type: 'refresh_token',
+      client_id: env.JIRA_OAUTH_CLIENT_ID!,
+      client_secret: env.JIRA_OAUTH_CLIENT_SECRET!,
+      refresh_token: connection.refreshToken,
+    });
+    const refreshed: OAuthConnection = {
+      ...connection,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token || connection.refreshToken,
+      expiresAt: Date.now() + tokens.expires_in * 1000,
+      scopes: tokens.scope || connection.scopes,
+    };
+    await saveConnection(refreshed, env);
+    return refreshed;
+  })();
+
+  refreshes.set(key, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshes.delete(key);
+  }
+}
+
+async function requestTokens(
+  body: Record<string, string>
+): Promise<{ access_token: string; refresh_token: string; expires_in: number; scope: string }> {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to obtain Jira OAuth tokens (${body.grant_type}): ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Read the site's connection, from this instance's cache unless `fresh`
+ */
+async function loadConnection(env: JiraAuthEnv, fresh = false): Promise<OAuthConnection | null> {
+  // Without an encryption key no tokens can be stored, so skip the lookup
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    return null;
+  }
+
+  const key = scopeKey(CONNECTION_KEY, env);
+  const cached = connections.get(key);
+  if (!fresh && cached && (cached.connection || Date.now() - cached.loadedAt < NO_CONNECTION_TTL_MS)) {
+    return cached.connection;
+  }
+
+  const encrypted = await env.STATE.get(key);
+  const connection = encrypted
+    ? (JSON.parse(await decryptString(encrypted, env.TOKEN_ENCRYPTION_KEY)) as OAuthConnection)
+    : null;
+  connections.set(key, { connection, loadedAt: Date.now() });
+  return connection;
+}
+
+async function saveConnection(connection: OAuthConnection, env: JiraAuthEnv): Promise<void> {
+  const key = scopeKey(CONNECTION_KEY, env);
+  await env.STATE.put(key, await encryptString(JSON.stringify(connection), env.TOKEN_ENCRYPTION_KEY!));
+  connections.set(key, { connection, loadedAt: Date.now() });
+}
+
+function assertOAuthConfigured(env: JiraAuthEnv): void {
+  if (!env.JIRA_OAUTH_CLIENT_ID || !env.JIRA_OAUTH_CLIENT_SECRET) {
+    throw new Error('JIRA_OAUTH_CLIENT_ID and JIRA_OAUTH_CLIENT_SECRET are not configured');
+  }
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured');
+  }
+}
+
+function normalizeSiteUrl(url: string | undefined): string {
+  return (url || '').trim().toLowerCase().replace(/\/+$/, '');
+}
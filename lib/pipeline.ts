@@ -0,0 +1,216 @@
+/**
+ * Subtask pipeline: routing, idempotency, generation and creation for one story
+ */
+
+import {
+  AIGeneratedDescription,
+  Env,
+  LoadedStoryJob,
+  PipelineResult,
+  StoryContext,
+  StoryJob,
+  SubtaskAssignment,
+  SubtaskType,
+  SubtaskTypeConfig,
+} from './types';
+import { addComment, createSubtask, getExistingSubtaskTypes, getIssue, transitionIssue, updateIssueDescription } from './jira';
+import { generateDescription, generateDescriptions } from './gemini';
+import { getSubtaskTypeConfig } from './registry';
+import { routeStory } from './routing';
+import { acquireStoryLock, releaseStoryLock } from './lock';
+import { runCommand } from './commands';
+import { getRecordedEndpoint, recordStorySnapshot, syncStory } from './drift';
+import { buildReadinessComment, checkReadiness } from './readiness';
+import { buildOutputFields, getInputFieldIds } from './fields';
+import { extractIssueContext, extractStoryContext } from './story';
+import { getEstimateComment, getEstimateFields } from './estimate';
+import { assignSubtask, getAssignmentFields } from './assignment';
+import { isHandoffEnabled, linkHandoff } from './handoff';
+import { Logger, logger } from './logger';
+import { toRunGeneration } from './runs';
+
+/**
+ * Run the subtask pipeline (or a comment command, or a drift resync) for a queued story job under the per-story lock
+ * Duplicate deliveries and runs already in flight are skipped; a run held by
+ * another trigger throws so the job is retried later
+ * @param job - Story job
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Pipeline outcome
+ */
+export async function processStory(job: StoryJob, env: Env, log: Logger = logger): Promise<PipelineResult> {
+  const lock = await acquireStoryLock(job, env);
+
+  if (lock.status === 'duplicate') {
+    return {
+      message: 'Duplicate - trigger already processed',
+      story: job.issueKey,
+      subtasks: lock.record.result?.subtasks,
+      duplicate: true,
+    };
+  }
+  if (lock.status === 'in_progress') {
+    return { message: `Duplicate - run in progress (job ${lock.record.jobId})`, story: job.issueKey, duplicate: true };
+  }
+  if (lock.status === 'locked') {
+    throw new Error(`${job.issueKey} is locked by job ${lock.record.jobId}`);
+  }
+
+  try {
+    const loaded: LoadedStoryJob = { ...job, context: await loadStoryContext(job, env, log) };
+    const result = loaded.command
+      ? await runCommand(loaded, env, log)
+      : loaded.drift ? await syncStory(loaded, env, log) : await runPipeline(loaded, env, log);
+    await releaseStoryLock(job, { result }, env);
+    return result;
+  } catch (error) {
+    await releaseStoryLock(job, { error }, env);
+    throw error;
+  }
+}
+
+/**
+ * Story context for a job: carried by manual and backfill jobs, otherwise built
+ * here so the webhook never waits on Jira. Comment payloads only carry
+ * abbreviated issue fields (no description), so comment commands fetch the full issue.
+ */
+async function loadStoryContext(job: StoryJob, env: Env, log: Logger): Promise<StoryContext> {
+  if (job.context) {
+    return job.context;
+  }
+  const inputFields = await getInputFieldIds(job.issueKey, env, log);
+  return job.issue
+    ? extractStoryContext({ issue: job.issue }, inputFields)
+    : extractIssueContext(await getIssue(job.issueKey, env, log), inputFields);
+}
+
+/**
+ * Route, check idempotency, generate and create subtasks for one story
+ * Safe to retry: subtasks created by an earlier attempt are detected by label and skipped
+ */
+async function runPipeline(job: LoadedStoryJob, env: Env, log: Logger): Promise<PipelineResult> {
+  const { issueKey, context: storyContext } = job;
+  log.info(`Processing ${issueKey}`, { issueKey, jobId: job.id });
+
+  // Decide which subtasks this story needs (manual runs may override routing)
+  const routing = routeStory(storyContext, env);
+  const types = job.options?.types ?? routing.types;
+  if (types.length === 0) {
+    return { message: 'Ignored - no subtasks selected', story: issueKey, routing };
+  }
+
+  // Check idempotency (forced runs regenerate existing subtasks instead of skipping them)
+  const existingTypes = await getExistingSubtaskTypes(issueKey, types, env, log);
+  const pendingTypes = types
+    .filter(type => job.options?.force || !existingTypes.has(type))
+    .map(getSubtaskTypeConfig);
+
+  if (pendingTypes.length === 0) {
+    return { message: 'Subtasks already exist', story: issueKey, routing };
+  }
+
+  // Readiness gate (forced manual runs bypass it)
+  if (env.READINESS_CHECK === 'true' && !job.options?.force) {
+    const readiness = await checkReadiness(storyContext, pendingTypes.map(config => config.type), env, log);
+    if (!readiness.ready) {
+      await addComment(issueKey, buildReadinessComment(storyContext, readiness), env, log);
+      if (env.READINESS_TRANSITION) {
+        await transitionIssue(issueKey, env.READINESS_TRANSITION, env, log);
+      }
+      log.info(`Not ready: ${issueKey}`, { issueKey, gaps: readiness.gaps });
+      return { message: 'Not ready - story needs more detail', story: issueKey, routing, readiness };
+    }
+  }
+
+  // With the backend handoff, the frontend waits for the backend contract
+  const handoff = isHandoffEnabled(env)
+    && pendingTypes.some(config => config.type === SubtaskType.FRONTEND)
+    && (pendingTypes.some(config => config.type === SubtaskType.BACKEND) || existingTypes.has(SubtaskType.BACKEND));
+  const firstPass = handoff ? pendingTypes.filter(config => config.type !== SubtaskType.FRONTEND) : pendingTypes;
+
+  // Generate AI descriptions in PARALLEL for speed
+  const [descriptions, outputFields] = await Promise.all([
+    generateDescriptions(firstPass, storyContext, env, log),
+    buildOutputFields(storyContext, env, log),
+  ]);
+
+  // Create subtasks
+  const subtasksCreated: { type: SubtaskType; key: string; assignment?: SubtaskAssignment }[] = [];
+  const subtasksRegenerated: { type: SubtaskType; key: string }[] = [];
+
+  const writeSubtask = async (config: SubtaskTypeConfig, generated: AIGeneratedDescription): Promise<string> => {
+    const { document: description, spec } = generated;
+    const existingKey = existingTypes.get(config.type);
+
+    if (existingKey) {
+      await updateIssueDescription(existingKey, description, env, log);
+      subtasksRegenerated.push({ type: config.type, key: existingKey });
+      log.info(`Regenerated ${config.type} subtask: ${existingKey}`, { issueKey, subtask: existingKey });
+      return existingKey;
+    }
+
+    const assignment = await assignSubtask(config.type, storyContext, env, log);
+    const subtask = await createSubtask(issueKey, {
+      summary: `${config.summaryPrefix} ${storyContext.summary}`,
+      description,
+      subtaskType: config.type,
+      labels: config.labels,
+      assigneeAccountId: assignment?.assigneeAccountId,
+      fields: {
+        ...outputFields,
+        ...(await getEstimateFields(spec.estimate, env, log)),
+        ...(await getAssignmentFields(assignment, env, log)),
+      },
+    }, env, log);
+    const estimateComment = getEstimateComment(spec.estimate, env);
+    if (estimateComment) {
+      await addComment(subtask.key, estimateComment, env, log);
+    }
+    subtasksCreated.push({ type: config.type, key: subtask.key, ...(assignment && { assignment }) });
+    log.info(`Created ${config.type} subtask: ${subtask.key}`, { issueKey, subtask: subtask.key });
+    return subtask.key;
+  };
+
+  const keys = new Map<SubtaskType, string>();
+  for (const config of firstPass) {
+    keys.set(config.type, await writeSubtask(config, descriptions.get(config.type)!));
+  }
+
+  if (handoff) {
+    const backendKey = keys.get(SubtaskType.BACKEND) ?? existingTypes.get(SubtaskType.BACKEND);
+    // A backend not generated in this run hands over the contract recorded when it was
+    const backend = descriptions.get(SubtaskType.BACKEND);
+    const endpoint = backend ? backend.spec.endpoint : await getRecordedEndpoint(issueKey, env);
+    const frontendConfig = getSubtaskTypeConfig(SubtaskType.FRONTEND);
+    const frontend = await generateDescription(frontendConfig, {
+      ...storyContext,
+      handoff: { key: backendKey, endpoint },
+    }, env, log);
+    descriptions.set(SubtaskType.FRONTEND, frontend);
+
+    const isNew = !existingTypes.has(SubtaskType.FRONTEND);
+    const frontendKey = await writeSubtask(frontendConfig, frontend);
+    if (isNew && backendKey) {
+      await linkHandoff(backendKey, frontendKey, env, log);
+    }
+  }
+
+  await recordStorySnapshot(
+    storyContext,
+    [...subtasksCreated, ...subtasksRegenerated].map(({ type, key }) => {
+      const { document, spec } = descriptions.get(type)!;
+      return { type, key, document, endpoint: spec.endpoint };
+    }),
+    env
+  );
+
+  log.info(`Done: ${issueKey}`, { issueKey });
+  return {
+    message: subtasksRegenerated.length > 0 ? 'Subtasks generated' : 'Subtasks created',
+    story: issueKey,
+    routing,
+    subtasks: subtasksCreated,
+    ...(subtasksRegenerated.length > 0 && { regenerated: subtasksRegenerated }),
+    generations: [...descriptions].map(([type, description]) => toRunGeneration(type, description)),
+  };
+}
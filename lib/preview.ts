@@ -0,0 +1,87 @@
+/**
+ * Dry-run preview: run extraction, routing and generation without writing to Jira
+ */
+
+import { Env, ReadinessReport, RoutingDecision, StoryContext, SubtaskSpec, SubtaskType } from './types';
+import { buildSubtaskPayload } from './jira';
+import { generateDescription, generateDescriptions } from './gemini';
+import { getSubtaskTypeConfig } from './registry';
+import { routeStory } from './routing';
+import { checkReadiness } from './readiness';
+import { buildOutputFields } from './fields';
+import { getEstimateFields } from './estimate';
+import { isHandoffEnabled } from './handoff';
+import { Logger, logger } from './logger';
+
+export interface StoryPreview {
+  context: StoryContext;
+  routing: RoutingDecision;
+  readiness: ReadinessReport; // reported even when READINESS_CHECK is off
+  subtasks: Array<{
+    type: SubtaskType;
+    prompt: string;
+    rawOutput: string;
+    spec: SubtaskSpec;
+    template?: { project: string; version: number }; // absent for the built-in prompt
+    payload: { fields: Record<string, any> }; // what createSubtask would send
+  }>;
+}
+
+/**
+ * Preview the subtasks the pipeline would create for a story
+ * @param context - Story context
+ * @param env - Environment variables
+ * @param types - Optional override of the routed subtask types
+ * @param log - Logger carrying the request's correlation ID
+ * @returns Routing decision, readiness report, plus prompt, model output, spec and Jira payload per type
+ */
+export async function previewStory(
+  context: StoryContext,
+  env: Env,
+  types?: SubtaskType[],
+  log: Logger = logger
+): Promise<StoryPreview> {
+  const routing = routeStory(context, env);
+  const configs = (types ?? routing.types).map(getSubtaskTypeConfig);
+  // With the backend handoff, the frontend is generated from the backend contract (as in the pipeline)
+  const handoff = isHandoffEnabled(env)
+    && configs.some((config) => config.type === SubtaskType.BACKEND)
+    && configs.some((config) => config.type === SubtaskType.FRONTEND);
+  const firstPass = handoff ? configs.filter((config) => config.type !== SubtaskType.FRONTEND) : configs;
+
+  const [readiness, descriptions, outputFields] = await Promise.all([
+    checkReadiness(context, configs.map((config) => config.type), env, log),
+    generateDescriptions(firstPass, context, env, log),
+    buildOutputFields(context, env, log),
+  ]);
+  if (handoff) {
+    const endpoint = descriptions.get(SubtaskType.BACKEND)!.spec.endpoint;
+    descriptions.set(
+      SubtaskType.FRONTEND,
+      await generateDescription(getSubtaskTypeConfig(SubtaskType.FRONTEND), { ...context, handoff: { endpoint } }, env, log)
+    );
+  }
+
+  return {
+    context,
+    routing,
+    readiness,
+    subtasks: await Promise.all(configs.map(async (config) => {
+      const description = descriptions.get(config.type)!;
+      return {
+        type: config.type,
+        prompt: description.prompt,
+        rawOutput: description.rawOutput,
+        spec: description.spec,
+        template: description.template,
+        payload: buildSubtaskPayload(context.key, {
+          summary: `${config.summaryPrefix} ${context.summary}`,
+          description: description.document,
+          subtaskType: config.type,
+          labels: config.labels,
+          fields: { ...outputFields, ...(await getEstimateFields(description.spec.estimate, env, log)) },
+        }),
+      };
+    })),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Prompt builders for each subtask type
+ * Each prompt describes what to extract; the JSON output contract is added by lib/spec.ts
+ */
+
+import { StoryContext } from './types';
+
+function storyHeader(context: StoryContext, task: string): string {
+  return `Create a ${task} subtask from this Jira story. Extract and organize ONLY the information provided.
+
+Story Key: ${context.key}
+Summary: ${context.summary}
+
+Description:
+${context.description || '[No description provided]'}
+${storyDetails(context)}`;
+}
+
+/**
+ * Inputs that are not already part of the description (mapped custom fields)
+ */
+function storyDetails(context: StoryContext): string {
+  const criteriaInDescription = !context.acceptanceCriteria || context.description.includes(context.acceptanceCriteria);
+  const lines = [
+    criteriaInDescription ? '' : `\nAcceptance Criteria:\n${context.acceptanceCriteria}\n`,
+    context.figmaLink ? `Design Link: ${context.figmaLink}` : '',
+    context.platform ? `Target Platform: ${context.platform}` : '',
+    context.team ? `Team: ${context.team}` : '',
+    context.storyPoints !== undefined ? `Story Points: ${context.storyPoints}` : '',
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n${lines.join('\n')}` : '';
+}
+
+/**
+ * Frames, components and copy pulled from the Figma design, when available
+ */
+export function designSummary(context: StoryContext): string {
+  const { design } = context;
+  if (!design) {
+    return '';
+  }
+
+  const lines = [
+    `\nDESIGN (Figma file "${design.fileName}"${design.nodeName ? `, frame "${design.nodeName}"` : ''}):`,
+    design.frames.length > 0 ? `Screens/frames: ${design.frames.join(', ')}` : '',
+    design.components.length > 0 ? `Components used: ${design.components.join(', ')}` : '',
+    design.texts.length > 0 ? `Text on screen: ${design.texts.map((text) => `"${text}"`).join(', ')}` : '',
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Backend contract the frontend must call, when generated after the backend
+ */
+export function backendContract(context: StoryContext): string {
+  const { handoff } = context;
+  if (!handoff?.endpoint) {
+    return handoff?.key ? `\nBACKEND SUBTASK: ${handoff.key}` : '';
+  }
+
+  const { method, path, requestBody, response } = handoff.endpoint;
+  return [
+    `\nBACKEND CONTRACT${handoff.key ? ` (backend subtask ${handoff.key})` : ''}:`,
+    `Endpoint: ${method} ${path}`,
+    requestBody ? `Request Body: ${requestBody}` : '',
+    response ? `Response: ${response}` : '',
+  ].filter(Boolean).join('\n');
+}
+
+export function buildBackendPrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'backend implementation')}
+
+WHAT TO EXTRACT:
+- goal: Summarize the backend functionality needed
+- fields: ALL fields mentioned with types and validations
+- businessRules: ALL business rules mentioned
+- endpoint: Suggest path and method (POST/PUT/GET) based on the feature, with request body and success/error responses
+- validations: ALL validations and error cases mentioned
+- tests: Unit tests for validations, integration tests for the endpoint
+
+IMPORTANT: Extract ALL fields and rules from the story. Do not skip requirements.`;
+}
+
+export function buildFrontendPrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'frontend implementation')}
+${designSummary(context)}${backendContract(context)}
+
+WHAT TO EXTRACT:
+- goal: Summarize the UI functionality needed
+- fields: ALL form fields and UI elements mentioned
+- businessRules: UI behaviour rules mentioned
+- endpoint: ${context.handoff?.endpoint ? 'The backend contract above' : 'The backend endpoint the UI calls, if the story names one (otherwise null)'}
+- validations: ALL frontend validations and error messages
+- tests: E2E tests for the complete flow, component tests for validations
+- sections:
+  - "Design": ${context.figmaLink ? context.figmaLink : '[Design link needed]'}${context.design ? ', plus the screens and components from the design that this story touches' : ''}
+  - "User Flow": entry point, steps, success state, error handling
+
+IMPORTANT: Extract ALL fields and validations. Note the entry point and navigation flow.${context.design ? ' Use the screen, component and text names from the design where they match the story.' : ''}`;
+}
+
+export function buildQAPrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'QA / test planning')}
+
+WHAT TO EXTRACT:
+- goal: Summarize what needs to be verified
+- businessRules: Rules from the acceptance criteria that must hold
+- validations: Edge cases and negative tests for ALL validations and error states mentioned
+- tests: ALL scenarios derived from the acceptance criteria, happy path first
+- sections:
+  - "Test Data": data needed to run the scenarios
+  - "Regression Scope": areas mentioned in the story that could be affected
+
+IMPORTANT: Every acceptance criterion must map to at least one test.`;
+}
+
+export function buildDevOpsPrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'DevOps / infrastructure')}
+
+WHAT TO EXTRACT:
+- goal: Summarize the infrastructure or delivery work needed
+- fields: ALL environment variables, secrets or feature flags mentioned
+- businessRules: Infrastructure constraints mentioned
+- tests: Smoke checks after deployment
+- sections:
+  - "Infrastructure Changes": services, queues, storage or networking changes
+  - "Deployment & Rollback": deployment steps, migration order and rollback plan
+  - "Monitoring": alerts, dashboards or logs needed
+
+IMPORTANT: If the story does not mention infrastructure work, say so in the goal.`;
+}
+
+export function buildMobilePrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'mobile implementation')}
+
+WHAT TO EXTRACT:
+- goal: Summarize the mobile functionality needed
+- fields: ALL screens, form fields and UI elements mentioned
+- businessRules: App behaviour rules mentioned
+- endpoint: The backend endpoint the app calls, if the story names one (otherwise null)
+- validations: ALL client-side validations and error messages
+- tests: UI tests for the complete flow, unit tests for validations
+- sections:
+  - "Design": ${context.figmaLink ? context.figmaLink : '[Design link needed]'}
+  - "Platform Notes": iOS/Android differences, permissions, offline behaviour
+
+IMPORTANT: Extract ALL fields and validations. Note the entry point and navigation flow.`;
+}
+
+export function buildDataPrompt(context: StoryContext): string {
+  return `${storyHeader(context, 'data engineering')}
+
+WHAT TO EXTRACT:
+- goal: Summarize the data work needed
+- fields: ALL tables, columns or events mentioned with types
+- businessRules: Constraints and retention rules mentioned
+- validations: Data quality checks
+- tests: Migration and data quality tests
+- sections:
+  - "Migrations & Backfill": migration steps and any backfill of existing data
+  - "Reporting & Analytics": metrics, events or reports mentioned
+
+IMPORTANT: Extract ALL fields from the story. Do not invent columns.`;
+}
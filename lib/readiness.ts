@@ -0,0 +1,143 @@
+/**
+ * Story readiness gate: catch stories that would produce subtasks full of
+ * [ASK REPORTER] placeholders before anything is generated
+ */
+
+import { AdfDocument, Env, ReadinessReport, StoryContext, SubtaskType } from './types';
+import { complete } from './llm';
+import { parseSpecOutput } from './spec';
+import { markdownToADF } from './adf';
+import { Logger, logger } from './logger';
+
+// Descriptions shorter than this are too thin to generate from
+const MIN_DESCRIPTION_WORDS = 25;
+
+const DEFAULT_MIN_SCORE = 6;
+
+// Placeholders and hand-waving that leave the model guessing
+const VAGUE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:TBD|TBC|TODO)\b/, 'contains TBD/TODO placeholders'],
+  [/\?{2,}/, 'contains unanswered "??" markers'],
+  [/\bas discussed\b/i, 'refers to "as discussed" instead of stating the decision'],
+  [/\b(?:etc\.?|and so on)\b/i, 'ends lists with "etc." instead of listing the cases'],
+  [/\b(?:somehow|some kind of|something like)\b/i, 'describes behaviour vaguely ("somehow", "something like")'],
+];
+
+// Subtask types that need a design to build against
+const UI_TYPES = [SubtaskType.FRONTEND, SubtaskType.MOBILE];
+
+const READINESS_SYSTEM_PROMPT = `You review Jira user stories before developers break them into subtasks.
+Judge whether the story is specific enough to implement without asking the reporter questions.
+Respond with JSON only: {"score": <0-10>, "gaps": ["<missing or unclear information>", ...]}
+10 means fully specified. List at most 5 gaps, each one short sentence.`;
+
+/**
+ * Check a story before generation
+ * Heuristics always run; with READINESS_LLM=true the model also scores the
+ * story and the story fails below READINESS_MIN_SCORE
+ * @param context - Story context
+ * @param types - Subtask types the story was routed to
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ * @returns Readiness report listing the gaps found
+ */
+export async function checkReadiness(
+  context: StoryContext,
+  types: SubtaskType[],
+  env: Env,
+  log: Logger = logger
+): Promise<ReadinessReport> {
+  const gaps = findGaps(context, types);
+
+  if (env.READINESS_LLM !== 'true') {
+    return { ready: gaps.length === 0, gaps };
+  }
+
+  const configuredMin = Number(env.READINESS_MIN_SCORE);
+  const minScore = Number.isFinite(configuredMin) && configuredMin > 0 ? configuredMin : DEFAULT_MIN_SCORE;
+
+  try {
+    const { score, gaps: modelGaps } = await scoreStory(context, env, log);
+    const allGaps = [...gaps, ...modelGaps.filter((gap) => !gaps.includes(gap))];
+    return { ready: gaps.length === 0 && score >= minScore, score, gaps: allGaps };
+  } catch (error) {
+    // The score is advisory - never block generation because the model is unavailable
+    log.error(`Readiness scoring failed for ${context.key}`, { error });
+    return { ready: gaps.length === 0, gaps };
+  }
+}
+
+/**
+ * Comment on the story listing the readiness gaps, mentioning the reporter
+ * @param context - Story context
+ * @param report - Failed readiness report
+ * @returns Comment body (ADF)
+ */
+export function buildReadinessComment(context: StoryContext, report: ReadinessReport): AdfDocument {
+  const score = report.score !== undefined ? ` (readiness score ${report.score}/10)` : '';
+  const body = markdownToADF(
+    `this story is not ready for subtask generation${score}. Please address the following and move it back to ready:\n\n` +
+    report.gaps.map((gap) => `- ${gap}`).join('\n')
+  );
+
+  // Markdown has no mention syntax, so the mention is prepended to the first paragraph
+  const [first, ...rest] = body.content;
+  const greeting = context.reporter
+    ? [{ type: 'mention', attrs: { id: context.reporter.accountId, text: `@${context.reporter.displayName || 'reporter'}` } }, { type: 'text', text: ' ' }]
+    : [{ type: 'text', text: 'Hi, ' }];
+
+  return {
+    ...body,
+    content: [
+      { type: 'paragraph', content: [{ type: 'text', text: 'board-helper', marks: [{ type: 'strong' }] }, { type: 'text', text: ': ' }, ...greeting, ...(first.content || [])] },
+      ...rest,
+    ],
+  };
+}
+
+function findGaps(context: StoryContext, types: SubtaskType[]): string[] {
+  const gaps: string[] = [];
+  const text = `${context.summary}\n${context.description}`;
+
+  if (!context.acceptanceCriteria?.trim()) {
+    gaps.push('No acceptance criteria');
+  }
+  if (types.some((type) => UI_TYPES.includes(type)) && !context.figmaLink) {
+    gaps.push('No design link (Figma) for UI work');
+  }
+
+  const words = context.description.split(/\s+/).filter(Boolean).length;
+  if (words < MIN_DESCRIPTION_WORDS) {
+    gaps.push(`Description is too short (${words} words)`);
+  }
+
+  for (const [pattern, gap] of VAGUE_PATTERNS) {
+    if (pattern.test(text)) {
+      gaps.push(`Description ${gap}`);
+    }
+  }
+
+  return gaps;
+}
+
+async function scoreStory(context: StoryContext, env: Env, log: Logger): Promise<{ score: number; gaps: string[] }> {
+  const prompt = `STORY: ${context.key} - ${context.summary}
+
+DESCRIPTION:
+${context.description || '(empty)'}
+
+ACCEPTANCE CRITERIA:
+${context.acceptanceCriteria || '(none)'}
+
+DESIGN LINK: ${context.figmaLink || '(none)'}`;
+
+  const response = await complete(READINESS_SYSTEM_PROMPT, prompt, env, { json: true }, log);
+  const result = parseSpecOutput(response.text) as { score?: unknown; gaps?: unknown };
+
+  const score = Number(result?.score);
+  if (!Number.isFinite(score)) {
+    throw new Error(`Readiness score missing from ${response.provider} output`);
+  }
+  const gaps = Array.isArray(result.gaps) ? result.gaps.filter((gap): gap is string => typeof gap === 'string') : [];
+  return { score: Math.max(0, Math.min(10, score)), gaps };
+}
@@ -0,0 +1,121 @@
+/**
+ * Subtask type registry
+ * Adding a subtask type only requires a SubtaskType member and an entry here
+ */
+
+import { SubtaskType, SubtaskTypeConfig } from './types';
+import {
+  buildBackendPrompt,
+  buildFrontendPrompt,
+  buildQAPrompt,
+  buildDevOpsPrompt,
+  buildMobilePrompt,
+  buildDataPrompt,
+} from './prompts';
+
+interface Env {
+  SUBTASK_TYPES?: string;
+}
+
+// Label applied to every subtask created by the worker
+export const AUTO_GENERATED_LABEL = 'auto-generated';
+
+// Types generated when SUBTASK_TYPES is not configured
+const DEFAULT_SUBTASK_TYPES = [SubtaskType.BACKEND, SubtaskType.FRONTEND];
+
+export const SUBTASK_TYPES: Record<SubtaskType, SubtaskTypeConfig> = {
+  [SubtaskType.BACKEND]: {
+    type: SubtaskType.BACKEND,
+    summaryPrefix: '[Backend]',
+    labels: [AUTO_GENERATED_LABEL, 'backend'],
+    idempotencyLabel: 'backend',
+    prompt: buildBackendPrompt,
+    requiresEndpoint: true,
+  },
+  [SubtaskType.FRONTEND]: {
+    type: SubtaskType.FRONTEND,
+    summaryPrefix: '[Frontend]',
+    labels: [AUTO_GENERATED_LABEL, 'frontend'],
+    idempotencyLabel: 'frontend',
+    prompt: buildFrontendPrompt,
+    usesDesign: true,
+    usesHandoff: true,
+  },
+  [SubtaskType.QA]: {
+    type: SubtaskType.QA,
+    summaryPrefix: '[QA]',
+    labels: [AUTO_GENERATED_LABEL, 'qa'],
+    idempotencyLabel: 'qa',
+    prompt: buildQAPrompt,
+  },
+  [SubtaskType.DEVOPS]: {
+    type: SubtaskType.DEVOPS,
+    summaryPrefix: '[DevOps]',
+    labels: [AUTO_GENERATED_LABEL, 'devops'],
+    idempotencyLabel: 'devops',
+    prompt: buildDevOpsPrompt,
+  },
+  [SubtaskType.MOBILE]: {
+    type: SubtaskType.MOBILE,
+    summaryPrefix: '[Mobile]',
+    labels: [AUTO_GENERATED_LABEL, 'mobile'],
+    idempotencyLabel: 'mobile',
+    prompt: buildMobilePrompt,
+  },
+  [SubtaskType.DATA]: {
+    type: SubtaskType.DATA,
+    summaryPrefix: '[Data]',
+    labels: [AUTO_GENERATED_LABEL, 'data'],
+    idempotencyLabel: 'data',
+    prompt: buildDataPrompt,
+  },
+};
+
+/**
+ * Get the registry entry for a subtask type
+ * @param type - SubtaskType enum value
+ * @returns Subtask type configuration
+ */
+export function getSubtaskTypeConfig(type: SubtaskType): SubtaskTypeConfig {
+  const config = SUBTASK_TYPES[type];
+  if (!config) {
+    throw new Error(`Unknown subtask type: ${type}`);
+  }
+  return config;
+}
+
+/**
+ * Resolve a subtask type from user input (type name or idempotency label)
+ * @param value - e.g. "Backend", "qa", "devops"
+ * @returns Matching SubtaskType or undefined
+ */
+export function parseSubtaskType(value: string): SubtaskType | undefined {
+  const normalized = value.trim().toLowerCase();
+  return Object.values(SUBTASK_TYPES).find(
+    (config) =>
+      config.type.toLowerCase() === normalized ||
+      config.idempotencyLabel === normalized
+  )?.type;
+}
+
+/**
+ * Get the subtask types enabled for this deployment
+ * SUBTASK_TYPES is a comma-separated list, e.g. "backend,frontend,qa"
+ * @param env - Environment variables
+ * @returns Enabled subtask type configurations, in configured order
+ */
+export function getEnabledSubtaskTypes(env: Env): SubtaskTypeConfig[] {
+  if (!env.SUBTASK_TYPES) {
+    return DEFAULT_SUBTASK_TYPES.map(getSubtaskTypeConfig);
+  }
+
+  return env.SUBTASK_TYPES.split(',')
+    .filter((value) => value.trim() !== '')
+    .map((value) => {
+      const type = parseSubtaskType(value);
+      if (!type) {
+        throw new Error(`Unknown subtask type in SUBTASK_TYPES: ${value}`);
+      }
+      return getSubtaskTypeConfig(type);
+    });
+}
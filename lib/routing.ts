@@ -0,0 +1,121 @@
+/**
+ * Rule-based routing of which subtask types are created per story
+ */
+
+import { RoutingDecision, RoutingRule, StoryContext, SubtaskType } from './types';
+import { getEnabledSubtaskTypes, getSubtaskTypeConfig, parseSubtaskType } from './registry';
+
+interface Env {
+  SUBTASK_TYPES?: string;
+  ROUTING_RULES?: string;
+}
+
+// Rules used when ROUTING_RULES is not configured
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+  { name: 'backend-only', when: { labels: ['backend-only'] }, types: ['backend'] },
+  { name: 'frontend-only', when: { labels: ['frontend-only'] }, types: ['frontend'] },
+  { name: 'no-ui', when: { labels: ['no-ui'] }, skip: ['frontend', 'mobile'] },
+  { name: 'mobile-component', when: { components: ['Mobile'] }, types: ['mobile', 'backend'] },
+  { name: 'api-only', when: { onlyComponents: ['API'] }, types: ['backend'] },
+];
+
+/**
+ * Story label that opts a story out of one subtask type (set by "/board-helper skip <type>")
+ */
+export function getSkipLabel(type: SubtaskType): string {
+  return `board-helper-skip-${getSubtaskTypeConfig(type).idempotencyLabel}`;
+}
+
+/**
+ * Load routing rules from ROUTING_RULES (JSON array) or fall back to defaults
+ * @param env - Environment variables
+ * @returns Ordered routing rules
+ */
+export function getRoutingRules(env: Env): RoutingRule[] {
+  if (!env.ROUTING_RULES) {
+    return DEFAULT_ROUTING_RULES;
+  }
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(env.ROUTING_RULES);
+  } catch {
+    throw new Error('ROUTING_RULES is not valid JSON');
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('ROUTING_RULES must be a JSON array');
+  }
+  return rules as RoutingRule[];
+}
+
+/**
+ * Decide which subtask types to create for a story
+ * Rules are evaluated in order and the first matching rule wins; types the
+ * story opted out of with a skip label are always removed
+ * @param context - Story context
+ * @param env - Environment variables
+ * @returns Matched rule name (null for defaults) and the selected types
+ */
+export function routeStory(context: StoryContext, env: Env): RoutingDecision {
+  const decision = applyRules(context, env);
+  return {
+    ...decision,
+    types: decision.types.filter((type) => !context.labels.includes(getSkipLabel(type))),
+  };
+}
+
+function applyRules(context: StoryContext, env: Env): RoutingDecision {
+  const defaults = getEnabledSubtaskTypes(env).map((config) => config.type);
+  const rule = getRoutingRules(env).find((candidate) => ruleMatches(candidate, context));
+
+  if (!rule) {
+    return { rule: null, types: defaults };
+  }
+
+  let types = rule.types ? toSubtaskTypes(rule.types, rule.name) : defaults;
+  if (rule.add) {
+    types = [...types, ...toSubtaskTypes(rule.add, rule.name)];
+  }
+  if (rule.skip) {
+    const skipped = toSubtaskTypes(rule.skip, rule.name);
+    types = types.filter((type) => !skipped.includes(type));
+  }
+
+  return { rule: rule.name, types: [...new Set(types)] };
+}
+
+function ruleMatches(rule: RoutingRule, context: StoryContext): boolean {
+  const labels = context.labels.map(normalize);
+  const components = context.components.map(normalize);
+  const { when } = rule;
+
+  if (when.labels && !when.labels.some((label) => labels.includes(normalize(label)))) {
+    return false;
+  }
+  if (when.components && !when.components.some((component) => components.includes(normalize(component)))) {
+    return false;
+  }
+  if (when.onlyComponents) {
+    const allowed = when.onlyComponents.map(normalize);
+    if (components.length === 0 || !components.every((component) => allowed.includes(component))) {
+      return false;
+    }
+  }
+
+  // A rule without any condition never matches
+  return Boolean(when.labels || when.components || when.onlyComponents);
+}
+
+function toSubtaskTypes(values: string[], ruleName: string): SubtaskType[] {
+  return values.map((value) => {
+    const type = parseSubtaskType(value);
+    if (!type) {
+      throw new Error(`Unknown subtask type "${value}" in routing rule "${ruleName}"`);
+    }
+    return type;
+  });
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
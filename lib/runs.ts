@@ -0,0 +1,271 @@
+/**
+ * Run history in D1: one row per story job (and per webhook ignored before
+ * queueing), filterable by tenant, story, project, outcome and date, with the
+ * prompts, model output and token usage behind each run (schema in migrations/)
+ */
+
+import {
+  AIGeneratedDescription,
+  PipelineResult,
+  RunGeneration,
+  RunHistoryEntry,
+  RunOutcome,
+  StoryJob,
+  SubtaskType,
+} from './types';
+import { Logger, logger } from './logger';
+
+interface Env {
+  DB: D1Database;
+  TENANT_ID?: string;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Listings leave out the prompts and model output (see getRun)
+const LIST_COLUMNS = `id, tenant, issue_key, project, trigger, outcome, message, error, attempts, result,
+  NULL AS generations, input_tokens, output_tokens, started_at, finished_at, duration_ms`;
+
+export interface RunFilters {
+  story?: string;
+  project?: string;
+  outcome?: RunOutcome;
+  from?: string; // ISO date/time, inclusive
+  to?: string; // ISO date/time, exclusive
+  limit?: number;
+  offset?: number;
+}
+
+interface RunRow {
+  id: string;
+  tenant: string | null;
+  issue_key: string;
+  project: string;
+  trigger: string;
+  outcome: RunOutcome;
+  message: string | null;
+  error: string | null;
+  attempts: number;
+  result: string | null;
+  generations: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+}
+
+/**
+ * Record the outcome of a story job attempt (replaces the row of earlier attempts)
+ * History is best-effort: D1 errors are logged, never thrown, so they cannot fail the job
+ * @param job - Story job
+ * @param outcome - Pipeline result on success, or the error on failure
+ * @param attempts - Attempts made so far
+ * @param startedAt - When this attempt started (ms since epoch)
+ * @param env - Environment variables
+ * @param log - Logger carrying the job's correlation ID
+ */
+export async function recordRun(
+  job: StoryJob,
+  outcome: { result?: PipelineResult; error?: unknown },
+  attempts: number,
+  startedAt: number,
+  env: Env,
+  log: Logger = logger
+): Promise<void> {
+  const finishedAt = Date.now();
+  const error = outcome.error === undefined
+    ? null
+    : outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+  // Prompts and output get their own column so listings stay small
+  const { generations, ...result } = outcome.result || {};
+  const usage = sumUsage(generations || []);
+
+  try {
+    await env.DB.prepare(
+      `INSERT INTO runs (id, tenant, issue_key, project, trigger, outcome, message, error, attempts, result,
+                         generations, input_tokens, output_tokens, started_at, finished_at, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         outcome = excluded.outcome, message = excluded.message, error = excluded.error,
+         attempts = excluded.attempts, result = excluded.result, generations = excluded.generations,
+         input_tokens = excluded.input_tokens, output_tokens = excluded.output_tokens,
+         started_at = excluded.started_at, finished_at = excluded.finished_at, duration_ms = excluded.duration_ms`
+    ).bind(
+      job.id,
+      job.tenant ?? null,
+      job.issueKey,
+      job.issueKey.split('-')[0],
+      job.trigger,
+      getRunOutcome(outcome.result, error),
+      outcome.result?.message ?? null,
+      error,
+      attempts,
+      outcome.result ? JSON.stringify(result) : null,
+      generations?.length ? JSON.stringify(generations) : null,
+      usage?.inputTokens ?? null,
+      usage?.outputTokens ?? null,
+      new Date(startedAt).toISOString(),
+      new Date(finishedAt).toISOString(),
+      finishedAt - startedAt
+    ).run();
+  } catch (dbError) {
+    log.error(`Error recording run ${job.id} for ${job.issueKey}`, { error: dbError });
+  }
+}
+
+/**
+ * Record a webhook that was answered without queueing a job (not a Story,
+ * wrong status, no command, replayed delivery, ...)
+ * Best-effort like recordRun
+ * @param issueKey - Issue the webhook was about
+ * @param trigger - Webhook event, e.g. "webhook:jira:issue_updated"
+ * @param outcome - "ignored" or "duplicate"
+ * @param message - Response message
+ * @param env - Environment variables (tenant-scoped for tenant webhooks)
+ * @param log - Logger carrying the request's correlation ID
+ */
+export async function recordWebhookDecision(
+  issueKey: string,
+  trigger: string,
+  outcome: Extract<RunOutcome, 'ignored' | 'duplicate'>,
+  message: string,
+  env: Env,
+  log: Logger = logger
+): Promise<void> {
+  const now = new Date().toISOString();
+  try {
+    await env.DB.prepare(
+      `INSERT INTO runs (id, tenant, issue_key, project, trigger, outcome, message, attempts, started_at, finished_at, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, 0)`
+    ).bind(
+      crypto.randomUUID(),
+      env.TENANT_ID ?? null,
+      issueKey,
+      issueKey.split('-')[0],
+      trigger,
+      outcome,
+      message,
+      now,
+      now
+    ).run();
+  } catch (dbError) {
+    log.error(`Error recording webhook decision for ${issueKey}`, { error: dbError });
+  }
+}
+
+/**
+ * Generation details for the run history
+ * @param type - Subtask type
+ * @param description - Generated description
+ * @returns Prompt, raw output, provider/model, usage and template version
+ */
+export function toRunGeneration(type: SubtaskType, description: AIGeneratedDescription): RunGeneration {
+  return {
+    type,
+    prompt: description.prompt,
+    rawOutput: description.rawOutput,
+    provider: description.provider,
+    model: description.model,
+    usage: description.usage,
+    template: description.template,
+  };
+}
+
+/**
+ * List runs, newest first
+ * @param filters - Story, project, outcome and date range, plus paging
+ * @param env - Environment variables (only the env's tenant, or the global site, is listed)
+ * @returns Matching runs
+ */
+export async function listRuns(filters: RunFilters, env: Env): Promise<RunHistoryEntry[]> {
+  const conditions: string[] = ['tenant IS ?'];
+  const params: unknown[] = [env.TENANT_ID ?? null];
+
+  if (filters.story) {
+    conditions.push('issue_key = ?');
+    params.push(filters.story);
+  }
+  if (filters.project) {
+    conditions.push('project = ?');
+    params.push(filters.project);
+  }
+  if (filters.outcome) {
+    conditions.push('outcome = ?');
+    params.push(filters.outcome);
+  }
+  if (filters.from) {
+    conditions.push('started_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('started_at < ?');
+    params.push(filters.to);
+  }
+
+  const limit = Math.min(filters.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const { results } = await env.DB.prepare(
+    `SELECT ${LIST_COLUMNS} FROM runs WHERE ${conditions.join(' AND ')} ORDER BY started_at DESC LIMIT ? OFFSET ?`
+  ).bind(...params, limit, filters.offset || 0).all<RunRow>();
+
+  return results.map(toEntry);
+}
+
+/**
+ * Get one run, including its prompts and model output
+ * @param id - Job ID
+ * @param env - Environment variables (runs of other tenants are not found)
+ * @returns Run or null if not found
+ */
+export async function getRun(id: string, env: Env): Promise<RunHistoryEntry | null> {
+  const row = await env.DB.prepare('SELECT * FROM runs WHERE id = ? AND tenant IS ?')
+    .bind(id, env.TENANT_ID ?? null)
+    .first<RunRow>();
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Failed with an error, duplicate for triggers already handled, completed when
+ * subtasks were written, skipped otherwise
+ */
+export function getRunOutcome(result: PipelineResult | undefined, error: string | null = null): RunOutcome {
+  if (error !== null || !result) {
+    return 'failed';
+  }
+  if (result.duplicate) {
+    return 'duplicate';
+  }
+  return (result.subtasks?.length || 0) + (result.regenerated?.length || 0) > 0 ? 'completed' : 'skipped';
+}
+
+function toEntry(row: RunRow): RunHistoryEntry {
+  return {
+    id: row.id,
+    tenant: row.tenant ?? undefined,
+    issueKey: row.issue_key,
+    project: row.project,
+    trigger: row.trigger,
+    outcome: row.outcome,
+    message: row.message ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    result: row.result ? (JSON.parse(row.result) as PipelineResult) : undefined,
+    ...(row.input_tokens !== null && { usage: { inputTokens: row.input_tokens, outputTokens: row.output_tokens ?? 0 } }),
+    ...(row.generations && { generations: JSON.parse(row.generations) as RunGeneration[] }),
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.duration_ms,
+  };
+}
+
+function sumUsage(generations: RunGeneration[]): { inputTokens: number; outputTokens: number } | undefined {
+  const usages = generations.flatMap((generation) => (generation.usage ? [generation.usage] : []));
+  if (usages.length === 0) {
+    return undefined;
+  }
+  return {
+    inputTokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Structured subtask specs: JSON schema, validation, repair and ADF rendering
+ */
+
+import { AdfDocument, AdfNode, SubtaskSpec, SubtaskTypeConfig } from './types';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const ESTIMATE_SIZES = ['XS', 'S', 'M', 'L', 'XL'];
+
+/**
+ * Output contract appended to every generation prompt
+ */
+export const SPEC_INSTRUCTIONS = `RESPOND WITH A SINGLE JSON OBJECT AND NOTHING ELSE. Use exactly this shape:
+
+{
+  "goal": string,
+  "fields": [{ "name": string, "type": string, "required": boolean, "validation": string }],
+  "businessRules": [string],
+  "endpoint": { "method": "GET" | "POST" | "PUT" | "PATCH" | "DELETE", "path": string, "requestBody": string, "response": string } | null,
+  "validations": [string],
+  "tests": [string],
+  "assumptions": [string],
+  "sections": [{ "title": string, "items": [string] }],
+  "estimate": { "size": "XS" | "S" | "M" | "L" | "XL", "justification": string }
+}
+
+Use [] for empty lists and null for "endpoint" when no endpoint applies. Put anything not stated in the story into "assumptions".
+Size "estimate" from the number of fields, business rules and validations you listed, and justify it in one sentence that cites those counts.`;
+
+/**
+ * Parse model output into a JSON value, tolerating code fences, surrounding
+ * prose and trailing commas
+ * @param text - Raw model output
+ * @returns Parsed value
+ */
+export function parseSpecOutput(text: string): unknown {
+  let json = text.trim();
+
+  // Strip ```json fences
+  const fenced = json.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    json = fenced[1].trim();
+  }
+
+  // Drop prose before the first { and after the last }
+  const start = json.indexOf('{');
+  const end = json.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Model output does not contain a JSON object');
+  }
+  json = json.slice(start, end + 1);
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Remove trailing commas before } or ]
+    return JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+  }
+}
+
+/**
+ * Coerce near-miss output into the spec shape (single strings into lists,
+ * missing lists into [], method casing) without inventing content
+ * @param value - Parsed model output
+ * @returns Normalized value, still to be validated
+ */
+export function normalizeSpec(value: unknown): unknown {
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const spec: Record<string, any> = { ...value };
+  for (const key of ['businessRules', 'validations', 'tests', 'assumptions']) {
+    spec[key] = toStringList(spec[key]);
+  }
+  if (spec.fields === undefined || spec.fields === null) {
+    spec.fields = [];
+  }
+  if (Array.isArray(spec.fields)) {
+    spec.fields = spec.fields.map((field: any) =>
+      isObject(field) ? { ...field, required: field.required === true || field.required === 'true' } : field
+    );
+  }
+  if (spec.sections === undefined || spec.sections === null) {
+    spec.sections = [];
+  }
+  if (Array.isArray(spec.sections)) {
+    spec.sections = spec.sections.map((section: any) =>
+      isObject(section) ? { ...section, items: toStringList(section.items) } : section
+    );
+  }
+  if (spec.endpoint === undefined) {
+    spec.endpoint = null;
+  }
+  if (isObject(spec.endpoint) && typeof spec.endpoint.method === 'string') {
+    spec.endpoint = { ...spec.endpoint, method: spec.endpoint.method.trim().toUpperCase() };
+  }
+  if (isObject(spec.estimate) && typeof spec.estimate.size === 'string') {
+    spec.estimate = { ...spec.estimate, size: spec.estimate.size.trim().toUpperCase() };
+  }
+
+  return spec;
+}
+
+/**
+ * Validate a value against the spec schema
+ * @param value - Normalized model output
+ * @param config - Subtask type the spec was generated for
+ * @returns List of schema errors (empty when valid)
+ */
+export function validateSpec(value: unknown, config: SubtaskTypeConfig): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return ['root must be a JSON object'];
+  }
+
+  if (typeof value.goal !== 'string' || value.goal.trim() === '') {
+    errors.push('"goal" must be a non-empty string');
+  }
+
+  if (!Array.isArray(value.fields)) {
+    errors.push('"fields" must be an array');
+  } else {
+    value.fields.forEach((field: any, i: number) => {
+      if (!isObject(field) || typeof field.name !== 'string' || typeof field.type !== 'string') {
+        errors.push(`"fields[${i}]" must have string "name" and "type"`);
+      } else if (field.validation !== undefined && typeof field.validation !== 'string') {
+        errors.push(`"fields[${i}].validation" must be a string`);
+      }
+    });
+  }
+
+  for (const key of ['businessRules', 'validations', 'tests', 'assumptions']) {
+    if (!isStringList(value[key])) {
+      errors.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  if (value.endpoint === null) {
+    if (config.requiresEndpoint) {
+      errors.push(`"endpoint" is required for ${config.type} subtasks`);
+    }
+  } else if (!isObject(value.endpoint)) {
+    errors.push('"endpoint" must be an object or null');
+  } else {
+    if (!HTTP_METHODS.includes(value.endpoint.method)) {
+      errors.push(`"endpoint.method" must be one of ${HTTP_METHODS.join(', ')}`);
+    }
+    if (typeof value.endpoint.path !== 'string' || value.endpoint.path.trim() === '') {
+      errors.push('"endpoint.path" must be a non-empty string');
+    }
+  }
+
+  if (!Array.isArray(value.sections)) {
+    errors.push('"sections" must be an array');
+  } else {
+    value.sections.forEach((section: any, i: number) => {
+      if (!isObject(section) || typeof section.title !== 'string' || !isStringList(section.items)) {
+        errors.push(`"sections[${i}]" must have a string "title" and string "items"`);
+      }
+    });
+  }
+
+  if (!isObject(value.estimate)) {
+    errors.push('"estimate" must be an object');
+  } else {
+    if (!ESTIMATE_SIZES.includes(value.estimate.size)) {
+      errors.push(`"estimate.size" must be one of ${ESTIMATE_SIZES.join(', ')}`);
+    }
+    if (typeof value.estimate.justification !== 'string' || value.estimate.justification.trim() === '') {
+      errors.push('"estimate.justification" must be a non-empty string');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build the follow-up prompt asking the model to fix an invalid response
+ * The original request is repeated so a truncated response can be completed
+ * @param originalPrompt - Prompt the invalid output answered (story and spec instructions)
+ * @param previousOutput - The invalid model output
+ * @param errors - Parse or schema errors
+ * @returns Repair prompt
+ */
+export function buildRepairPrompt(originalPrompt: string, previousOutput: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous response to the request above did not match the required JSON schema.
+
+ERRORS:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${previousOutput}
+
+Return the corrected JSON object only. Keep the content of the previous response and fix the structure; if it was cut off, complete it from the request above.`;
+}
+
+/**
+ * Render a spec as an ADF document
+ * @param spec - Validated subtask spec
+ * @param disclaimer - Warning shown at the top of the description
+ * @returns ADF document for the Jira description field
+ */
+export function specToADF(spec: SubtaskSpec, disclaimer: string): AdfDocument {
+  const content: AdfNode[] = [
+    {
+      type: 'panel',
+      attrs: { panelType: 'warning' },
+      content: [paragraph(disclaimer)],
+    },
+    heading('Goal'),
+    paragraph(spec.goal),
+  ];
+
+  if (spec.fields.length > 0) {
+    content.push(heading('Fields Required'), fieldsTable(spec.fields));
+  }
+
+  pushList(content, 'Business Logic', spec.businessRules);
+
+  if (spec.endpoint) {
+    const { method, path, requestBody, response } = spec.endpoint;
+    content.push(heading('Technical Implementation'), bulletList([
+      [textNode('Endpoint: ', true), textNode(`${method} ${path}`, false, 'code')],
+      ...(requestBody ? [[textNode('Request Body: ', true), textNode(requestBody)]] : []),
+      ...(response ? [[textNode('Response: ', true), textNode(response)]] : []),
+    ]));
+  }
+
+  pushList(content, 'Validation & Errors', spec.validations);
+
+  for (const section of spec.sections) {
+    pushList(content, section.title, section.items);
+  }
+
+  pushList(content, 'Tests', spec.tests);
+  pushList(content, 'Assumptions', spec.assumptions);
+  pushList(content, 'Estimate', [`${spec.estimate.size} - ${spec.estimate.justification}`]);
+
+  return { type: 'doc', version: 1, content };
+}
+
+function pushList(content: AdfNode[], title: string, items: string[]): void {
+  if (items.length === 0) return;
+  content.push(heading(title), bulletList(items.map((item) => [textNode(item)])));
+}
+
+function heading(text: string): AdfNode {
+  return { type: 'heading', attrs: { level: 3 }, content: [textNode(text)] };
+}
+
+function paragraph(text: string): AdfNode {
+  return { type: 'paragraph', content: text ? [textNode(text)] : [] };
+}
+
+function bulletList(items: AdfNode[][]): AdfNode {
+  return {
+    type: 'bulletList',
+    content: items.map((inline) => ({
+      type: 'listItem',
+      content: [{ type: 'paragraph', content: inline }],
+    })),
+  };
+}
+
+function fieldsTable(fields: SubtaskSpec['fields']): AdfNode {
+  const cell = (type: string, text: string, strong = false): AdfNode => ({
+    type,
+    content: [{ type: 'paragraph', content: text ? [textNode(text, strong)] : [] }],
+  });
+
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: [
+      {
+        type: 'tableRow',
+        content: ['Field', 'Type', 'Required', 'Validation'].map((title) => cell('tableHeader', title, true)),
+      },
+      ...fields.map((field) => ({
+        type: 'tableRow',
+        content: [
+          cell('tableCell', field.name),
+          cell('tableCell', field.type),
+          cell('tableCell', field.required ? 'Yes' : 'No'),
+          cell('tableCell', field.validation || ''),
+        ],
+      })),
+    ],
+  };
+}
+
+function textNode(text: string, strong = false, mark?: string): AdfNode {
+  const marks = [...(strong ? [{ type: 'strong' }] : []), ...(mark ? [{ type: mark }] : [])];
+  return marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+function toStringList(value: unknown): unknown {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.trim() ? [value] : [];
+  return value;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,114 @@
+/**
+ * Story context extraction from Jira payloads
+ */
+
+import { JiraIssue, JiraWebhookPayload, StoryContext } from './types';
+import { adfToMarkdown, isAdfDocument } from './adf';
+import { fieldValueToText, InputFieldIds } from './fields';
+
+/**
+ * Build the story context used for AI processing from a webhook payload
+ * @param payload - Jira webhook payload (or just its issue)
+ * @param inputFields - Custom field IDs for story inputs (see getInputFieldIds)
+ * @returns Story context with Markdown description
+ */
+export function extractStoryContext(
+  payload: Pick<JiraWebhookPayload, 'issue'>,
+  inputFields: InputFieldIds = {}
+): StoryContext {
+  return buildStoryContext(payload.issue.key, payload.issue.fields, inputFields);
+}
+
+/**
+ * Build the story context from a full issue fetched through the REST API
+ * @param issue - Jira issue
+ * @param inputFields - Custom field IDs for story inputs (see getInputFieldIds)
+ * @returns Story context with Markdown description
+ */
+export function extractIssueContext(issue: JiraIssue, inputFields: InputFieldIds = {}): StoryContext {
+  return buildStoryContext(issue.key, issue.fields, inputFields);
+}
+
+function buildStoryContext(
+  key: string,
+  fields: JiraWebhookPayload['issue']['fields'] | JiraIssue['fields'],
+  inputFields: InputFieldIds
+): StoryContext {
+  const rawDescription = fields.description;
+  const description = descriptionToMarkdown(rawDescription);
+
+  // Mapped custom fields win; the description is the fallback for AC and the design link
+  const input = (name: keyof InputFieldIds) => {
+    const fieldId = inputFields[name];
+    return fieldId ? fieldValueToText((fields as Record<string, unknown>)[fieldId], descriptionToMarkdown) : undefined;
+  };
+  const designField = input('designLink');
+  const storyPoints = Number(input('storyPoints'));
+  const team = input('team');
+  const platform = input('platform');
+
+  return {
+    key,
+    summary: fields.summary || '',
+    description,
+    acceptanceCriteria: input('acceptanceCriteria') || extractAcceptanceCriteria(description),
+    // Wiki markup can mangle URLs when cleaned, so prefer the raw string
+    figmaLink: (designField && extractFigmaLink(designField))
+      || extractFigmaLink(typeof rawDescription === 'string' ? rawDescription : description),
+    labels: fields.labels || [],
+    components: fields.components?.map((c: any) => c.name) || [],
+    ...(input('storyPoints') !== undefined && Number.isFinite(storyPoints) && { storyPoints }),
+    ...(team && { team }),
+    ...(platform && { platform }),
+    ...(fields.reporter && {
+      reporter: { accountId: fields.reporter.accountId, displayName: fields.reporter.displayName },
+    }),
+  };
+}
+
+/**
+ * Normalize a story description to Markdown
+ * Accepts ADF (REST v3, or stringified by Automation) and wiki markup (REST v2, Automation smart values)
+ */
+export function descriptionToMarkdown(description: unknown): string {
+  if (!description) return '';
+  if (isAdfDocument(description)) return adfToMarkdown(description);
+  if (typeof description !== 'string') return '';
+
+  if (description.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(description);
+      if (isAdfDocument(parsed)) return adfToMarkdown(parsed);
+    } catch {
+      // Not JSON - treat as wiki markup
+    }
+  }
+
+  return cleanJiraMarkup(description);
+}
+
+function cleanJiraMarkup(text: string): string {
+  if (!text) return '';
+  return text
+    .replace(/\{panel[^}]*\}|\{panel\}/g, '')
+    .replace(/h(\d)\.\s*/g, '\n## ')
+    .replace(/\*([^*]+)\*/g, '$1')
+    .replace(/_([^_]+)_/g, '$1')
+    .replace(/\{\{([^}]+)\}\}/g, '`$1`')
+    .replace(/\[([^\]|]+)\|([^\]|]+)(?:\|[^\]]+)?\]/g, '$1 ($2)')
+    .replace(/\[([^\]]+)\]/g, '$1')
+    .replace(/\|smart-link\]|\|smart-embed\]/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function extractFigmaLink(text: string): string | undefined {
+  const match = text.match(/https?:\/\/(?:www\.)?figma\.com\/(?:design|file|proto)\/[^\s\]|)]+/i);
+  return match?.[0]?.replace(/[|)\]]+$/, '');
+}
+
+function extractAcceptanceCriteria(text: string): string | undefined {
+  // Matches "AC:", "## Acceptance Criteria" and "**Acceptance Criteria:**" headings
+  const match = text.match(/(?:^|\n)[#*\s]*(?:acceptance criteria|ac)\b[:*\s]*\n([\s\S]*?)(?=\n#{1,6}\s|\n\*\*[A-Z]|$)/i);
+  return match?.[1]?.trim();
+}
@@ -1,69 +1,206 @@
 /**
- * Subtask description templates for backend and frontend tasks
+ * Prompt templates stored in Workers KV, versioned per Jira project and subtask type
+ * An active template replaces the built-in prompt from lib/prompts.ts; the JSON
+ * output contract (lib/spec.ts) is still appended. Templates for project "*"
+ * apply to projects without their own. Each tenant has its own set.
  */
 
-import { SubtaskType } from './types';
+import { PromptTemplate, StoryContext, SubtaskType } from './types';
+import { backendContract, designSummary } from './prompts';
+import { scopeKey } from './tenants';
 
-/**
- * Backend subtask template
- */
-export const BACKEND_TEMPLATE = `Goal:
-[Brief purpose of the endpoint]
+interface Env {
+  STATE: KVNamespace;
+  TENANT_ID?: string;
+}
 
-Fields Required:
-[List of fields inferred from story + design]
+const PREFIX = 'template:';
 
-Business Logic:
-[Rule 1]
-[Rule 2]
-[Rule 3]
+export const DEFAULT_TEMPLATE_PROJECT = '*';
 
-Technical Implementation Details:
-Endpoint:
-Method:
-Request Body:
-Response:
+// Summary kept in KV metadata so listing needs no extra reads
+interface TemplateSummary {
+  activeVersion: number;
+  latestVersion: number;
+  updatedAt: string;
+}
 
-Validation & Errors:
-[List]
+/**
+ * Values available to templates as {{name}}
+ */
+const VARIABLES: Record<string, (context: StoryContext) => string> = {
+  key: (context) => context.key,
+  summary: (context) => context.summary,
+  description: (context) => context.description || '[No description provided]',
+  acceptanceCriteria: (context) => context.acceptanceCriteria || '',
+  figmaLink: (context) => context.figmaLink || '',
+  labels: (context) => context.labels.join(', '),
+  components: (context) => context.components.join(', '),
+  storyPoints: (context) => (context.storyPoints !== undefined ? String(context.storyPoints) : ''),
+  team: (context) => context.team || '',
+  platform: (context) => context.platform || '',
+  design: (context) => designSummary(context).trim(),
+  backendContract: (context) => backendContract(context).trim(),
+};
 
-Tests:
-- Unit tests
-- Integration tests`;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
 
 /**
- * Frontend subtask template
+ * Names of the variables a template uses that are not supported
+ * @param template - Template text
+ * @returns Unknown variable names (empty when the template is valid)
  */
-export const FRONTEND_TEMPLATE = `Goal:
-Integrate UI with backend endpoint
+export function findUnknownVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]);
+  return [...new Set(names.filter((name) => !(name in VARIABLES)))];
+}
 
-Design:
-[Figma link]
+/**
+ * Interpolate {{variables}} with story context values
+ * @param template - Template text
+ * @param context - Story context
+ * @returns Prompt text
+ */
+export function renderTemplate(template: string, context: StoryContext): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in VARIABLES ? VARIABLES[name](context) : match
+  );
+}
+
+/**
+ * Get the active template for a story's project (falling back to "*")
+ * @param issueKey - Story key
+ * @param type - Subtask type
+ * @param env - Environment variables
+ * @returns Active template text with its project and version, or null to use the built-in prompt
+ */
+export async function getActiveTemplate(
+  issueKey: string,
+  type: SubtaskType,
+  env: Env
+): Promise<{ project: string; version: number; template: string } | null> {
+  for (const project of [issueKey.split('-')[0], DEFAULT_TEMPLATE_PROJECT]) {
+    const record = await getTemplate(project, type, env);
+    const active = record?.versions.find((version) => version.version === record.activeVersion);
+    if (active) {
+      return { project, version: active.version, template: active.template };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a template with all its versions
+ * @param project - Jira project key or "*"
+ * @param type - Subtask type
+ * @param env - Environment variables
+ * @returns Template record or null if none was saved
+ */
+export async function getTemplate(project: string, type: SubtaskType, env: Env): Promise<PromptTemplate | null> {
+  return env.STATE.get<PromptTemplate>(templateKey(project, type, env), 'json');
+}
 
-Endpoint:
-[Reference to backend subtask]
+/**
+ * List saved templates
+ * @param env - Environment variables
+ * @returns Project, type and active/latest version of each template
+ */
+export async function listTemplates(
+  env: Env
+): Promise<Array<TemplateSummary & { project: string; type: string }>> {
+  const items: Array<TemplateSummary & { project: string; type: string }> = [];
+  let cursor: string | undefined;
+  const prefix = scopeKey(PREFIX, env);
+  do {
+    const result = await env.STATE.list<TemplateSummary>({ prefix, cursor });
+    for (const key of result.keys) {
+      const [project, type] = key.name.slice(prefix.length).split(':');
+      items.push({
+        project,
+        type,
+        activeVersion: key.metadata?.activeVersion ?? 0,
+        latestVersion: key.metadata?.latestVersion ?? 0,
+        updatedAt: key.metadata?.updatedAt || '',
+      });
+    }
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+  return items;
+}
 
-Acceptance Criteria:
-- Validations aligned with backend
-- Loading states handled
-- Errors handled gracefully
-- E2E test added
+/**
+ * Save a new template version and make it active
+ * @param project - Jira project key or "*"
+ * @param type - Subtask type
+ * @param template - Template text
+ * @param note - Optional change note
+ * @param env - Environment variables
+ * @returns Updated template record
+ */
+export async function saveTemplate(
+  project: string,
+  type: SubtaskType,
+  template: string,
+  note: string | undefined,
+  env: Env
+): Promise<PromptTemplate> {
+  const existing = await getTemplate(project, type, env);
+  const version = (existing ? latestVersion(existing) : 0) + 1;
+  const now = new Date().toISOString();
 
-Notes:
-[Any UI flow or edge cases]`;
+  return putTemplate({
+    project,
+    type,
+    activeVersion: version,
+    versions: [...(existing?.versions || []), { version, template, createdAt: now, ...(note && { note }) }],
+    updatedAt: now,
+  }, env);
+}
 
 /**
- * Get template by subtask type
- * @param type - SubtaskType enum value
- * @returns Template string
+ * Make an earlier version active again
+ * @param project - Jira project key or "*"
+ * @param type - Subtask type
+ * @param version - Version to activate (default: the one before the active version)
+ * @param env - Environment variables
+ * @returns Updated template record, or null when the template or version does not exist
  */
-export function getTemplate(type: SubtaskType): string {
-  switch (type) {
-    case SubtaskType.BACKEND:
-      return BACKEND_TEMPLATE;
-    case SubtaskType.FRONTEND:
-      return FRONTEND_TEMPLATE;
-    default:
-      throw new Error(`Unknown subtask type: ${type}`);
+export async function rollbackTemplate(
+  project: string,
+  type: SubtaskType,
+  version: number | undefined,
+  env: Env
+): Promise<PromptTemplate | null> {
+  const existing = await getTemplate(project, type, env);
+  if (!existing) {
+    return null;
   }
+
+  const earlier = existing.versions
+    .map((candidate) => candidate.version)
+    .filter((candidate) => candidate < existing.activeVersion);
+  const target = version ?? earlier[earlier.length - 1];
+  if (target === undefined || !existing.versions.some((candidate) => candidate.version === target)) {
+    return null;
+  }
+
+  return putTemplate({ ...existing, activeVersion: target, updatedAt: new Date().toISOString() }, env);
+}
+
+async function putTemplate(record: PromptTemplate, env: Env): Promise<PromptTemplate> {
+  const metadata: TemplateSummary = {
+    activeVersion: record.activeVersion,
+    latestVersion: latestVersion(record),
+    updatedAt: record.updatedAt,
+  };
+  await env.STATE.put(templateKey(record.project, record.type, env), JSON.stringify(record), { metadata });
+  return record;
+}
+
+function latestVersion(record: PromptTemplate): number {
+  return record.versions[record.versions.length - 1]?.version ?? 0;
+}
+
+function templateKey(project: string, type: SubtaskType, env: Env): string {
+  return scopeKey(`${PREFIX}${project}:${type}`, env);
 }
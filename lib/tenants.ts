@@ -0,0 +1,325 @@
+/**
+ * Tenant store: one record per client Jira site (Workers KV)
+ * A tenant replaces the Jira site and credentials, webhook authentication and
+ * trigger status of the global env and may override LLM and other settings.
+ * Per-site state (templates, field and Figma caches, story snapshots, locks, round-robin
+ * turns) is kept under the tenant's ID so issue keys never collide across sites.
+ */
+
+import { Env, Tenant } from './types';
+import { isValidIpRange } from './validation';
+
+const PREFIX = 'tenant:';
+
+export type TenantInput = Omit<Tenant, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Scoped state lives under tenants/<id>/<key>
+const SCOPE_PREFIX = 'tenants/';
+
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+const LLM_SETTING_PATTERN = /^(LLM|GEMINI|OPENAI|OLLAMA)_[A-Z_]+$/;
+
+// Configuration a tenant may override (bindings and admin tokens stay global)
+const TENANT_SETTINGS = [
+  'SUBTASK_TYPES',
+  'ROUTING_RULES',
+  'COMMAND_GROUPS',
+  'FIELD_MAPPINGS',
+  'BACKEND_HANDOFF',
+  'HANDOFF_LINK_TYPE',
+  'ASSIGNMENT_RULES',
+  'TEAM_FIELD',
+  'ESTIMATE_TARGET',
+  'ESTIMATE_FIELD',
+  'DRIFT_REGENERATE',
+  'READINESS_CHECK',
+  'READINESS_LLM',
+  'READINESS_MIN_SCORE',
+  'READINESS_TRANSITION',
+  'WEBHOOK_MAX_AGE_SECONDS',
+  'FIGMA_API_TOKEN',
+];
+
+// Secrets masked in admin API responses
+const SECRET_SETTING_PATTERN = /(_API_KEY|_TOKEN)$/;
+const REDACTED = '********';
+
+/**
+ * Check whether a string is a valid tenant ID (lowercase letters, digits and dashes)
+ */
+export function isValidTenantId(id: string): boolean {
+  return TENANT_ID_PATTERN.test(id);
+}
+
+/**
+ * Key for per-site state: unchanged for the global site, prefixed with the tenant otherwise
+ * @param key - State key (KV key, lock name, ...)
+ * @param env - Environment variables (tenant-scoped or global)
+ * @returns Scoped key
+ */
+export function scopeKey(key: string, env: { TENANT_ID?: string }): string {
+  return env.TENANT_ID ? `${SCOPE_PREFIX}${env.TENANT_ID}/${key}` : key;
+}
+
+/**
+ * Get a tenant
+ * @param id - Tenant ID
+ * @param env - Environment variables
+ * @returns Tenant or null if not found
+ */
+export async function getTenant(id: string, env: Env): Promise<Tenant | null> {
+  return env.STATE.get<Tenant>(PREFIX + id, { type: 'json', cacheTtl: 60 });
+}
+
+/**
+ * List tenants
+ * @param env - Environment variables
+ * @returns Tenant IDs with name and Jira site
+ */
+export async function listTenants(
+  env: Env
+): Promise<Array<{ id: string; name?: string; baseUrl: string }>> {
+  const items: Array<{ id: string; name?: string; baseUrl: string }> = [];
+  let cursor: string | undefined;
+  do {
+    const result = await env.STATE.list<{ name?: string; baseUrl: string }>({ prefix: PREFIX, cursor });
+    for (const key of result.keys) {
+      items.push({ id: key.name.slice(PREFIX.length), name: key.metadata?.name, baseUrl: key.metadata?.baseUrl || '' });
+    }
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * Validate a tenant definition from the admin API
+ * @param value - Parsed request body
+ * @returns Error messages (empty when valid)
+ */
+export function validateTenant(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['tenant must be a JSON object'];
+  }
+
+  const tenant = value as Record<string, any>;
+  const errors: string[] = [];
+  const jira = tenant.jira;
+  if (!jira || typeof jira !== 'object') {
+    errors.push('jira must be an object with baseUrl (and email and apiToken for Basic auth)');
+  } else {
+    if (typeof jira.baseUrl !== 'string' || !/^https:\/\/[^/]+/.test(jira.baseUrl)) {
+      errors.push('jira.baseUrl must be an https URL');
+    }
+    for (const field of ['email', 'apiToken']) {
+      if (jira[field] !== undefined && (typeof jira[field] !== 'string' || !jira[field])) {
+        errors.push(`jira.${field} must be a non-empty string`);
+      }
+    }
+    if ((jira.email === undefined) !== (jira.apiToken === undefined)) {
+      errors.push('jira.email and jira.apiToken must be set together');
+    }
+  }
+
+  for (const field of ['name', 'webhookSecret', 'webhookToken', 'readyStatus']) {
+    if (tenant[field] !== undefined && typeof tenant[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (tenant.projects !== undefined
+    && (!Array.isArray(tenant.projects) || tenant.projects.some((key: unknown) => typeof key !== 'string'))) {
+    errors.push('projects must be an array of project keys');
+  }
+  if (tenant.webhookIps !== undefined
+    && (!Array.isArray(tenant.webhookIps)
+      || tenant.webhookIps.some((entry: unknown) => typeof entry !== 'string' || !isValidIpRange(entry)))) {
+    errors.push('webhookIps must be an array of IP addresses or CIDR ranges');
+  }
+  if (!tenant.webhookSecret && !tenant.webhookToken && !tenant.webhookIps?.length) {
+    errors.push('at least one of webhookSecret, webhookToken or webhookIps must be set');
+  }
+
+  errors.push(...validateSettings('llm', tenant.llm, (name) => LLM_SETTING_PATTERN.test(name)));
+  errors.push(...validateSettings('settings', tenant.settings, (name) => TENANT_SETTINGS.includes(name)));
+  return errors;
+}
+
+/**
+ * Fill in stored credentials for a tenant definition sent back from GET
+ * Jira API token and webhook secret/token are kept when missing or equal to the
+ * redaction marker (send "" to remove them); secret llm/settings entries are kept
+ * when equal to the marker. Markers with no stored value are dropped.
+ * @param value - Parsed request body
+ * @param existing - Stored tenant, or null when creating
+ * @returns Request body with stored secrets restored (unchanged when not an object)
+ */
+export function restoreSecrets(value: unknown, existing: Tenant | null): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const keep = (incoming: unknown, stored: string | undefined, keepMissing: boolean) =>
+    incoming === REDACTED || (keepMissing && incoming === undefined) ? stored : incoming;
+  const restoreSettings = (settings: unknown, stored?: Record<string, string>) => {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      return settings;
+    }
+    return Object.fromEntries(Object.entries(settings)
+      .map(([name, setting]) => [name, keep(setting, stored?.[name], false)])
+      .filter(([, setting]) => setting !== undefined));
+  };
+
+  const tenant = { ...(value as Record<string, any>) };
+  if (tenant.jira && typeof tenant.jira === 'object') {
+    const apiToken = keep(tenant.jira.apiToken, existing?.jira.apiToken, tenant.jira.email !== undefined);
+    const { apiToken: _, ...jira } = tenant.jira;
+    tenant.jira = apiToken === undefined ? jira : { ...jira, apiToken };
+  }
+  for (const field of ['webhookSecret', 'webhookToken'] as const) {
+    tenant[field] = keep(tenant[field], existing?.[field], true);
+    if (tenant[field] === undefined) {
+      delete tenant[field];
+    }
+  }
+  if (tenant.llm !== undefined) {
+    tenant.llm = restoreSettings(tenant.llm, existing?.llm);
+  }
+  if (tenant.settings !== undefined) {
+    tenant.settings = restoreSettings(tenant.settings, existing?.settings);
+  }
+  return tenant;
+}
+
+/**
+ * Create or replace a tenant
+ * @param id - Tenant ID
+ * @param input - Validated tenant definition (see validateTenant)
+ * @param env - Environment variables
+ * @returns Saved tenant
+ */
+export async function saveTenant(
+  id: string,
+  input: TenantInput,
+  env: Env
+): Promise<Tenant> {
+  const existing = await getTenant(id, env);
+  const now = new Date().toISOString();
+  const tenant: Tenant = {
+    id,
+    ...(input.name && { name: input.name }),
+    jira: {
+      baseUrl: input.jira.baseUrl.replace(/\/+$/, ''),
+      ...(input.jira.email && { email: input.jira.email, apiToken: input.jira.apiToken }),
+    },
+    ...(input.webhookSecret && { webhookSecret: input.webhookSecret }),
+    ...(input.webhookToken && { webhookToken: input.webhookToken }),
+    ...(input.webhookIps?.length && { webhookIps: input.webhookIps.map((entry) => entry.trim()) }),
+    ...(input.readyStatus && { readyStatus: input.readyStatus }),
+    ...(input.projects && { projects: input.projects.map((key) => key.toUpperCase()) }),
+    ...(input.llm && { llm: input.llm }),
+    ...(input.settings && { settings: input.settings }),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await env.STATE.put(PREFIX + id, JSON.stringify(tenant), {
+    metadata: { name: tenant.name, baseUrl: tenant.jira.baseUrl },
+  });
+  return tenant;
+}
+
+/**
+ * Delete a tenant (its scoped state is left to expire or be overwritten)
+ * @param id - Tenant ID
+ * @param env - Environment variables
+ */
+export async function deleteTenant(id: string, env: Env): Promise<void> {
+  await env.STATE.delete(PREFIX + id);
+}
+
+/**
+ * Tenant as returned by the admin API, with credentials and API keys masked
+ */
+export function redactTenant(tenant: Tenant): Tenant {
+  const redactSettings = (settings?: Record<string, string>) => settings && Object.fromEntries(
+    Object.entries(settings).map(([name, value]) => [name, SECRET_SETTING_PATTERN.test(name) ? REDACTED : value])
+  );
+
+  return {
+    ...tenant,
+    jira: { ...tenant.jira, ...(tenant.jira.apiToken && { apiToken: REDACTED }) },
+    ...(tenant.webhookSecret && { webhookSecret: REDACTED }),
+    ...(tenant.webhookToken && { webhookToken: REDACTED }),
+    ...(tenant.llm && { llm: redactSettings(tenant.llm) }),
+    ...(tenant.settings && { settings: redactSettings(tenant.settings) }),
+  };
+}
+
+/**
+ * Build the env a tenant's requests and jobs run with
+ * Jira credentials, webhook credentials and trigger status come only from
+ * the tenant; LLM and other settings fall back to the global env
+ * @param tenant - Tenant
+ * @param env - Global environment
+ * @returns Tenant-scoped environment
+ */
+export function getTenantEnv(tenant: Tenant, env: Env): Env {
+  return {
+    ...env,
+    ...tenant.llm,
+    ...tenant.settings,
+    JIRA_BASE_URL: tenant.jira.baseUrl,
+    JIRA_EMAIL: tenant.jira.email || '',
+    JIRA_API_TOKEN: tenant.jira.apiToken || '',
+    WEBHOOK_SECRET: tenant.webhookSecret || '',
+    WEBHOOK_TOKEN: tenant.webhookToken || '',
+    WEBHOOK_IP_ALLOWLIST: tenant.webhookIps?.join(',') || '',
+    WEBHOOK_ALLOW_UNAUTHENTICATED: undefined,
+    JIRA_READY_STATUS: tenant.readyStatus || env.JIRA_READY_STATUS,
+    TENANT_ID: tenant.id,
+    TENANT_PROJECTS: tenant.projects?.join(','),
+  };
+}
+
+/**
+ * Resolve the env for a queued job or admin request
+ * @param tenantId - Tenant ID, or undefined for the global site
+ * @param env - Global environment
+ * @returns Tenant-scoped environment (the global env when no tenant is given)
+ * @throws When the tenant does not exist
+ */
+export async function resolveTenantEnv(tenantId: string | undefined, env: Env): Promise<Env> {
+  if (!tenantId) {
+    return env;
+  }
+  const tenant = await getTenant(tenantId, env);
+  if (!tenant) {
+    throw new Error(`Unknown tenant: ${tenantId}`);
+  }
+  return getTenantEnv(tenant, env);
+}
+
+/**
+ * Check whether a project is handled for the env's tenant (always true for the global site)
+ */
+export function isProjectAllowed(projectKey: string, env: Env): boolean {
+  if (!env.TENANT_PROJECTS) {
+    return true;
+  }
+  return env.TENANT_PROJECTS.split(',').includes(projectKey.toUpperCase());
+}
+
+function validateSettings(field: string, value: unknown, isAllowed: (name: string) => boolean): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${field} must be an object of setting names to string values`];
+  }
+  return Object.entries(value).flatMap(([name, setting]) => {
+    if (!isAllowed(name)) {
+      return [`${field}.${name} cannot be set per tenant`];
+    }
+    return typeof setting === 'string' ? [] : [`${field}.${name} must be a string`];
+  });
+}
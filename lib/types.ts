@@ -2,15 +2,38 @@
  * TypeScript type definitions for the Jira subtask automation service
  */
 
-// Enum for subtask types
+// Enum for subtask types (each member needs an entry in lib/registry.ts)
 export enum SubtaskType {
   BACKEND = 'Backend',
   FRONTEND = 'Frontend',
+  QA = 'QA',
+  DEVOPS = 'DevOps',
+  MOBILE = 'Mobile',
+  DATA = 'Data',
+}
+
+// Registry entry describing how a subtask type is generated and detected
+export interface SubtaskTypeConfig {
+  type: SubtaskType;
+  summaryPrefix: string;
+  labels: string[];
+  idempotencyLabel: string;
+  prompt: (context: StoryContext) => string;
+  requiresEndpoint?: boolean; // spec must include an endpoint contract
+  usesDesign?: boolean; // prompt includes the Figma design summary
+  usesHandoff?: boolean; // prompt and spec use the backend contract (BACKEND_HANDOFF)
+}
+
+// Jira user reference (reporter, comment author, ...)
+export interface JiraUser {
+  accountId: string;
+  displayName?: string;
 }
 
 // Jira webhook payload structure
 export interface JiraWebhookPayload {
   webhookEvent: string;
+  timestamp?: number | string; // delivery time, ms since epoch (native webhooks; add it to Automation bodies)
   issue_event_type_name?: string;
   issue: {
     id: string;
@@ -26,11 +49,21 @@ export interface JiraWebhookPayload {
       };
       labels?: string[];
       components?: Array<{ name: string }>;
+      reporter?: JiraUser;
+    };
+  };
+  comment?: {
+    id: string;
+    body: any; // ADF (REST v3) or wiki markup
+    author: {
+      accountId: string;
+      displayName?: string;
     };
   };
   changelog?: {
     items: Array<{
       field: string;
+      fieldId?: string; // sent by native webhooks, e.g. "customfield_10042"
       fromString: string;
       toString: string;
     }>;
@@ -53,6 +86,7 @@ export interface JiraIssue {
     };
     labels?: string[];
     components?: Array<{ name: string }>;
+    reporter?: JiraUser;
     subtasks?: Array<{
       id: string;
       key: string;
@@ -64,10 +98,31 @@ export interface JiraIssue {
         labels?: string[];
       };
     }>;
-    customfield_10037?: string; // Common field for Figma links (adjust as needed)
+    [fieldId: string]: any; // custom fields (see lib/fields.ts)
+  };
+}
+
+// Field metadata from GET /rest/api/3/field
+export interface JiraField {
+  id: string; // e.g. "summary", "customfield_10016"
+  name: string;
+  custom: boolean;
+  schema?: {
+    type: string; // "string", "number", "option", "array", ...
+    items?: string; // item type for arrays
+    custom?: string;
   };
 }
 
+// Story inputs that can be read from custom fields
+export type StoryFieldName = 'acceptanceCriteria' | 'designLink' | 'storyPoints' | 'team' | 'platform';
+
+// Per-project mapping between story inputs / subtask outputs and Jira fields (by name or ID)
+export interface FieldMapping {
+  inputs?: Partial<Record<StoryFieldName, string>>;
+  outputs?: Record<string, StoryFieldName | { value: unknown }>; // copy a story input, or set a fixed value
+}
+
 // Story context extracted for AI processing
 export interface StoryContext {
   key: string;
@@ -77,14 +132,131 @@ export interface StoryContext {
   figmaLink?: string;
   labels: string[];
   components: string[];
+  reporter?: JiraUser;
+  storyPoints?: number;
+  team?: string;
+  platform?: string;
+  design?: FigmaDesign; // filled from the Figma API just before generation
+  handoff?: BackendHandoff; // backend contract, set when the frontend is generated after the backend
+}
+
+// Backend contract handed to the frontend subtask
+export interface BackendHandoff {
+  key?: string; // backend subtask key
+  endpoint: SubtaskSpec['endpoint'];
+}
+
+// Summary of the Figma file/node behind a story's design link
+export interface FigmaDesign {
+  fileName: string;
+  nodeName?: string; // set when the link points at a specific node
+  frames: string[];
+  components: string[]; // component instance names
+  texts: string[]; // text layer contents
+}
+
+// Declarative rule deciding which subtask types a story gets
+export interface RoutingRule {
+  name: string;
+  when: {
+    labels?: string[]; // story has any of these labels
+    components?: string[]; // story has any of these components
+    onlyComponents?: string[]; // every story component is in this list
+  };
+  types?: string[]; // replace the default types
+  add?: string[]; // add to the default types
+  skip?: string[]; // remove from the default types
 }
 
-// Input data for creating a subtask
+// Rule choosing the team and assignee for created subtasks (first match wins)
+export interface AssignmentRule {
+  name: string;
+  when?: {
+    types?: string[]; // subtask type is one of these
+    components?: string[]; // story has any of these components
+  };
+  team?: unknown; // value for the team field (e.g. Atlassian team ID)
+  assignee?:
+    | { strategy: 'fixed'; accountId: string }
+    | { strategy: 'round-robin' | 'least-loaded'; accountIds?: string[]; group?: string };
+}
+
+// Team and assignee picked for one subtask
+export interface SubtaskAssignment {
+  rule: string;
+  strategy?: 'fixed' | 'round-robin' | 'least-loaded';
+  assigneeAccountId?: string;
+  team?: unknown;
+}
+
+// Outcome of evaluating routing rules for a story
+export interface RoutingDecision {
+  rule: string | null;
+  types: SubtaskType[];
+}
+
+// Atlassian Document Format node
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: AdfMark[];
+}
+
+// Atlassian Document Format text mark (strong, em, code, link, ...)
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+// Atlassian Document Format root node
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+// Structured subtask description produced by the model (see lib/spec.ts)
+export interface SubtaskSpec {
+  goal: string;
+  fields: Array<{
+    name: string;
+    type: string;
+    required: boolean;
+    validation?: string;
+  }>;
+  businessRules: string[];
+  endpoint: {
+    method: string;
+    path: string;
+    requestBody?: string;
+    response?: string;
+  } | null;
+  validations: string[];
+  tests: string[];
+  assumptions: string[];
+  sections: Array<{
+    title: string;
+    items: string[];
+  }>;
+  estimate: {
+    size: EstimateSize;
+    justification: string;
+  };
+}
+
+// T-shirt size of a subtask estimate (see lib/estimate.ts for points/time)
+export type EstimateSize = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+// Input data for creating a subtask (description is Markdown or ADF)
 export interface SubtaskInput {
   summary: string;
-  description: string;
+  description: string | AdfDocument;
   subtaskType: SubtaskType;
   labels: string[];
+  assigneeAccountId?: string;
+  fields?: Record<string, unknown>; // extra fields by ID (mapped outputs, team, estimate)
 }
 
 // Response from creating a subtask
@@ -96,7 +268,280 @@ export interface CreateSubtaskResponse {
 
 // AI-generated description response
 export interface AIGeneratedDescription {
-  content: string;
+  prompt: string;
+  spec: SubtaskSpec;
+  document: AdfDocument;
+  rawOutput: string;
+  provider?: LLMProviderName;
+  model?: string;
+  usage?: TokenUsage;
+  template?: { project: string; version: number }; // absent for the built-in prompt
+}
+
+// Prompt template versions for one project and subtask type (see lib/templates.ts)
+export interface PromptTemplate {
+  project: string; // Jira project key, or "*" for all projects
+  type: SubtaskType;
+  activeVersion: number;
+  versions: Array<{
+    version: number;
+    template: string;
+    createdAt: string;
+    note?: string;
+  }>;
+  updatedAt: string;
+}
+
+// Supported LLM providers
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama';
+
+// Token counts reported by an LLM provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Completion returned by an LLM provider
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: TokenUsage;
+}
+
+// Command parsed from a "/board-helper ..." story comment
+export interface StoryCommand {
+  action: 'regenerate' | 'add' | 'skip' | 'explain' | 'help';
+  subtaskType?: SubtaskType;
+  error?: string; // why a malformed command fell back to "help"
+  commentId: string;
+  authorAccountId: string;
+  authorName?: string;
+}
+
+// Story processing job, queued by the webhook and run by the queue consumer
+export interface StoryJob {
+  id: string;
+  issueKey: string;
+  trigger: string; // what caused the run, e.g. "status:Ready to Start"
+  deliveryId: string; // stable across redeliveries of the same trigger event
+  // Story context, or the webhook's issue to build it from in the consumer;
+  // with neither (comment commands) the consumer fetches the full issue
+  context?: StoryContext;
+  issue?: JiraWebhookPayload['issue'];
+  command?: StoryCommand; // set for comment-driven runs
+  options?: {
+    types?: SubtaskType[]; // override routing
+    force?: boolean; // regenerate existing subtasks instead of skipping them
+  };
+  backfillId?: string; // set for stories queued by a backfill
+  drift?: boolean; // set for description/AC edits: resync generated subtasks
+  correlationId?: string; // ID of the request that queued the job, carried into its logs
+  tenant?: string; // tenant ID; absent for the global Jira site
+  receivedAt: string;
+}
+
+// Story job once the consumer has its story context
+export type LoadedStoryJob = StoryJob & { context: StoryContext };
+
+// Queue message that fetches and schedules the next page of a backfill
+export interface BackfillPageJob {
+  type: 'backfill-page';
+  backfillId: string;
+  page: number; // page index, used to drop stale redeliveries
+  tenant?: string;
+}
+
+export type QueueJob = StoryJob | BackfillPageJob;
+
+// Outcome of running the subtask pipeline for one story
+export interface PipelineResult {
+  message: string;
+  story: string;
+  routing?: RoutingDecision;
+  subtasks?: Array<{ type: SubtaskType; key: string; assignment?: SubtaskAssignment }>;
+  regenerated?: Array<{ type: SubtaskType; key: string }>;
+  readiness?: ReadinessReport;
+  duplicate?: boolean; // trigger already processed or still running
+  generations?: RunGeneration[]; // kept in the run history only, not in lock records
+}
+
+// LLM call behind one generated subtask description
+export interface RunGeneration {
+  type: SubtaskType;
+  prompt: string;
+  rawOutput: string;
+  provider?: LLMProviderName;
+  model?: string;
+  usage?: TokenUsage;
+  template?: { project: string; version: number };
+}
+
+// Outcome of the readiness check run before generation
+export interface ReadinessReport {
+  ready: boolean;
+  score?: number; // 0-10, when READINESS_LLM is enabled
+  gaps: string[];
+}
+
+// Per-story run record kept by the StoryLock Durable Object
+export interface RunRecord {
+  issueKey: string;
+  runKey: string; // trigger + delivery ID
+  jobId: string;
+  status: 'in_progress' | 'completed' | 'failed';
+  attempts: number;
+  startedAt: string;
+  leaseExpiresAt: number;
+  finishedAt?: string;
+  result?: PipelineResult;
+  error?: string;
+}
+
+// Story context the subtasks were generated from, kept for drift detection
+export interface StorySnapshot {
+  hash: string; // SHA-256 of the StoryContext
+  context: StoryContext;
+  subtasks: Partial<Record<SubtaskType, {
+    key: string;
+    descriptionHash: string; // SHA-256 of the description the bot wrote (as Markdown)
+    endpoint?: SubtaskSpec['endpoint']; // generated endpoint contract, handed to a frontend generated later
+  }>>;
+  updatedAt: string;
+}
+
+// Outcome of a story job in the run history
+// "ignored" and "duplicate" also cover webhook decisions that never reached the queue
+export type RunOutcome = 'completed' | 'skipped' | 'ignored' | 'duplicate' | 'failed';
+
+// Story job as stored in the D1 run history (see lib/runs.ts)
+export interface RunHistoryEntry {
+  id: string; // job ID
+  tenant?: string;
+  issueKey: string;
+  project: string;
+  trigger: string;
+  outcome: RunOutcome;
+  message?: string;
+  error?: string;
+  attempts: number; // 0 for webhook decisions
+  result?: PipelineResult;
+  usage?: TokenUsage; // LLM tokens over all generations
+  generations?: RunGeneration[]; // only on single-run lookups
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
+// Bulk backfill over a JQL query
+export interface BackfillRun {
+  id: string;
+  tenant?: string;
+  jql: string;
+  status: 'running' | 'paused' | 'completed' | 'failed';
+  pages: number; // pages fetched so far
+  nextPageToken?: string; // Jira search cursor for the next page
+  queued: number;
+  skipped: number;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+}
+
+// Progress of one story within a backfill
+export interface BackfillIssueProgress {
+  issueKey: string;
+  status: 'queued' | 'skipped' | 'completed' | 'failed';
+  message?: string;
+  updatedAt: string;
+}
+
+// Job that exhausted its retries, kept for inspection and re-drive
+export interface DeadLetter {
+  job: StoryJob;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+// Worker bindings and environment variables
+// Client Jira site with its own credentials and settings (see lib/tenants.ts)
+export interface Tenant {
+  id: string;
+  name?: string;
+  jira: {
+    baseUrl: string;
+    email?: string; // Basic auth; optional once the site is connected with OAuth
+    apiToken?: string;
+  };
+  webhookSecret?: string;
+  webhookToken?: string; // bearer token accepted on the tenant's webhook
+  webhookIps?: string[]; // IPs/CIDRs accepted on the tenant's webhook
+  readyStatus?: string; // trigger status, default JIRA_READY_STATUS
+  projects?: string[]; // project keys handled for this tenant (default: all)
+  llm?: Record<string, string>; // LLM_*, GEMINI_*, OPENAI_* and OLLAMA_* overrides
+  settings?: Record<string, string>; // other configuration overrides (FIELD_MAPPINGS, ROUTING_RULES, ...)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Env {
+  GEMINI_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_BASE_URL?: string;
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  LLM_FALLBACK_PROVIDER?: string;
+  LLM_FALLBACK_MODEL?: string;
+  LLM_TEMPERATURE?: string;
+  LLM_MAX_TOKENS?: string;
+  LLM_JSON_MAX_TOKENS?: string;
+  LLM_TIMEOUT_MS?: string;
+  LLM_REPAIR_ATTEMPTS?: string;
+  JIRA_BASE_URL: string;
+  JIRA_EMAIL: string;
+  JIRA_API_TOKEN: string;
+  JIRA_OAUTH_CLIENT_ID?: string;
+  JIRA_OAUTH_CLIENT_SECRET?: string;
+  JIRA_OAUTH_SCOPES?: string;
+  JIRA_OAUTH_REDIRECT_URI?: string;
+  TOKEN_ENCRYPTION_KEY?: string; // AES-256 key (base64) for stored OAuth tokens
+  WEBHOOK_SECRET: string;
+  WEBHOOK_TOKEN?: string; // shared bearer token accepted instead of a signature
+  WEBHOOK_IP_ALLOWLIST?: string; // comma-separated IPs/CIDRs accepted instead of a signature
+  WEBHOOK_MAX_AGE_SECONDS?: string; // replay window (default 300)
+  WEBHOOK_ALLOW_UNAUTHENTICATED?: string; // global site only: accept webhooks when no method is configured
+  ADMIN_API_TOKEN?: string;
+  METRICS_TOKEN?: string; // bearer token for /metrics (defaults to ADMIN_API_TOKEN)
+  JIRA_READY_STATUS?: string;
+  SUBTASK_TYPES?: string;
+  ROUTING_RULES?: string;
+  COMMAND_GROUPS?: string;
+  JOB_MAX_ATTEMPTS?: string;
+  FIELD_MAPPINGS?: string;
+  BACKEND_HANDOFF?: string;
+  HANDOFF_LINK_TYPE?: string;
+  ASSIGNMENT_RULES?: string;
+  TEAM_FIELD?: string;
+  ESTIMATE_TARGET?: string;
+  ESTIMATE_FIELD?: string;
+  DRIFT_REGENERATE?: string;
+  FIGMA_API_TOKEN?: string;
+  FIGMA_API_BASE_URL?: string;
+  FIGMA_CACHE_TTL?: string;
+  READINESS_CHECK?: string;
+  READINESS_LLM?: string;
+  READINESS_MIN_SCORE?: string;
+  READINESS_TRANSITION?: string;
+  BACKFILL_PAGE_SIZE?: string;
+  BACKFILL_STORIES_PER_MINUTE?: string;
+  TENANT_ID?: string; // set on tenant-scoped envs only
+  TENANT_PROJECTS?: string; // comma-separated project keys handled for the tenant
+  SUBTASK_QUEUE: Queue<QueueJob>;
+  STATE: KVNamespace;
+  STORY_LOCKS: DurableObjectNamespace;
+  DB: D1Database;
 }
 
 // Configuration for environment variables
@@ -1,12 +1,14 @@
 /**
- * Webhook signature validation using HMAC-SHA256
+ * Webhook signature, bearer token and IP allow-list validation
  * Uses Web Crypto API for Cloudflare Workers compatibility
  */
 
+import { logger } from './logger';
+
 /**
  * Validates webhook signature to ensure request authenticity
  * @param payload - Raw request body as string
- * @param signature - Signature from webhook header
+ * @param signature - Signature from webhook header (hex, optionally prefixed with "sha256=" as Jira sends it)
  * @param secret - Shared secret for validation
  * @returns true if signature is valid, false otherwise
  */
@@ -41,20 +43,115 @@ export async function validateWebhookSignature(
       .map(b => b.toString(16).padStart(2, '0'))
       .join('');
 
-    // Timing-safe comparison
-    if (signature.length !== expectedSignature.length) {
+    return timingSafeEqual(signature.trim().replace(/^sha256=/i, '').toLowerCase(), expectedSignature);
+  } catch (error) {
+    logger.error('Error validating webhook signature', { error });
+    return false;
+  }
+}
+
+/**
+ * Validates a bearer token from an Authorization header
+ * @param authorization - Authorization header value
+ * @param token - Expected token
+ * @returns true if the header carries the expected token, false otherwise
+ */
+export function validateBearerToken(authorization: string, token: string): boolean {
+  if (!authorization || !token) {
+    return false;
+  }
+
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  return match ? timingSafeEqual(match[1].trim(), token) : false;
+}
+
+/**
+ * Check whether an IP address is in an allow-list
+ * @param ip - Client IP address (IPv4 or IPv6)
+ * @param allowlist - Addresses and CIDR ranges, e.g. ["203.0.113.7", "2001:db8::/32"]
+ * @returns true if any entry matches, false otherwise
+ */
+export function isIpAllowed(ip: string, allowlist: string[]): boolean {
+  const address = parseIp(ip);
+  return !!address && allowlist.some(entry => {
+    const range = parseIpRange(entry);
+    return !!range && range.network.length === address.length && inRange(address, range.network, range.prefix);
+  });
+}
+
+/**
+ * Check whether a string is an IP address or CIDR range
+ */
+export function isValidIpRange(entry: string): boolean {
+  return parseIpRange(entry) !== null;
+}
+
+function parseIpRange(entry: string): { network: number[]; prefix: number } | null {
+  const [address, bits, ...rest] = entry.trim().split('/');
+  const network = parseIp(address);
+  if (!network || rest.length > 0 || (bits !== undefined && !/^\d{1,3}$/.test(bits))) {
+    return null;
+  }
+  const prefix = bits === undefined ? network.length * 8 : Number(bits);
+  if (prefix > network.length * 8) {
+    return null;
+  }
+  return { network, prefix };
+}
+
+function inRange(address: number[], network: number[], prefix: number): boolean {
+  for (let i = 0; i * 8 < prefix; i++) {
+    const mask = (0xff << (8 - Math.min(8, prefix - i * 8))) & 0xff;
+    if ((address[i] & mask) !== (network[i] & mask)) {
       return false;
     }
+  }
+  return true;
+}
 
-    // Use constant-time comparison
-    let result = 0;
-    for (let i = 0; i < signature.length; i++) {
-      result |= signature.charCodeAt(i) ^ expectedSignature.charCodeAt(i);
+/**
+ * Parse an IPv4 or IPv6 address into bytes
+ */
+function parseIp(value: string): number[] | null {
+  if (!value.includes(':')) {
+    const parts = value.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+      return null;
     }
-    return result === 0;
-  } catch (error) {
-    console.error('Error validating webhook signature:', error);
-    return false;
+    return parts.map(Number);
   }
+
+  const halves = value.toLowerCase().split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.flatMap(group => {
+    const n = parseInt(group, 16);
+    return [n >> 8, n & 0xff];
+  });
 }
 
+/**
+ * Constant-time string comparison
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
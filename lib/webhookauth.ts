@@ -0,0 +1,133 @@
+/**
+ * Webhook authentication policy and replay protection
+ * A delivery is admitted by any configured method: HMAC signature
+ * (WEBHOOK_SECRET), shared bearer token (WEBHOOK_TOKEN) or source IP
+ * (WEBHOOK_IP_ALLOWLIST). Admitted deliveries must then be recent (payload
+ * timestamp) and not seen before (nonce, remembered in KV for the replay window).
+ * Both come from the body, which the signature covers, so a captured request
+ * cannot be replayed with fresh headers. Every delivery carries a timestamp,
+ * so a nonce only needs to outlive the window its timestamp is accepted in.
+ */
+
+import { sha256Hex } from './crypto';
+import { scopeKey } from './tenants';
+import { isIpAllowed, validateBearerToken, validateWebhookSignature } from './validation';
+
+interface Env {
+  WEBHOOK_SECRET: string;
+  WEBHOOK_TOKEN?: string;
+  WEBHOOK_IP_ALLOWLIST?: string;
+  WEBHOOK_MAX_AGE_SECONDS?: string;
+  WEBHOOK_ALLOW_UNAUTHENTICATED?: string;
+  TENANT_ID?: string;
+  STATE: KVNamespace;
+}
+
+export type WebhookAuthMethod = 'signature' | 'token' | 'ip' | 'none';
+
+export type WebhookAuthResult =
+  | { ok: true; method: WebhookAuthMethod; nonce: string; replayed: boolean }
+  | { ok: false; reason: string };
+
+const DEFAULT_MAX_AGE_SECONDS = 300;
+const NONCE_PREFIX = 'webhook-nonce:';
+
+// KV rejects expirations shorter than a minute
+const MIN_NONCE_TTL_SECONDS = 60;
+
+/**
+ * Authenticate a webhook delivery and reject stale ones
+ * Requests without a valid signature, token or allowed IP are rejected; with
+ * no method configured every request is rejected unless the global site opts
+ * out with WEBHOOK_ALLOW_UNAUTHENTICATED (method "none"). Every delivery must
+ * carry a timestamp. A delivery whose nonce was already recorded is admitted
+ * with `replayed` set, so the caller can reject it without queueing it again.
+ * @param request - Incoming request
+ * @param rawBody - Raw request body (what the signature covers)
+ * @param payloadTimestamp - `timestamp` from the parsed payload, if any
+ * @param env - Environment variables (tenant-scoped for tenant webhooks)
+ * @returns Method that admitted the delivery and its nonce, or the reason it was rejected
+ */
+export async function authenticateWebhook(
+  request: Request,
+  rawBody: string,
+  payloadTimestamp: number | string | undefined,
+  env: Env
+): Promise<WebhookAuthResult> {
+  const method = await getAuthMethod(request, rawBody, env);
+  if (!method) {
+    return { ok: false, reason: 'missing or invalid signature, token or source IP' };
+  }
+
+  const timestamp = parseTimestamp(payloadTimestamp);
+  if (timestamp === null) {
+    return { ok: false, reason: 'missing timestamp' };
+  }
+  if (Math.abs(Date.now() - timestamp) > parseMaxAge(env.WEBHOOK_MAX_AGE_SECONDS) * 1000) {
+    return { ok: false, reason: 'timestamp outside the replay window' };
+  }
+
+  // Identical bodies sent at different times (Automation rules firing twice) are different deliveries
+  const nonce = await sha256Hex(`${timestamp}:${rawBody}`);
+  const replayed = (await env.STATE.get(scopeKey(NONCE_PREFIX + nonce, env))) !== null;
+  return { ok: true, method, nonce, replayed };
+}
+
+/**
+ * Remember a delivery's nonce for the replay window
+ * Called once the delivery has been handled, so a retry after a failed
+ * enqueue is processed rather than rejected. KV is eventually consistent:
+ * two copies sent at the same moment may both pass, and are then
+ * deduplicated by the story lock's delivery ID.
+ * @param nonce - Nonce returned by authenticateWebhook
+ * @param env - Environment variables (tenant-scoped for tenant webhooks)
+ */
+export async function recordWebhookNonce(nonce: string, env: Env): Promise<void> {
+  // Clock skew is allowed both ways, so remember the nonce for twice the window
+  await env.STATE.put(scopeKey(NONCE_PREFIX + nonce, env), new Date().toISOString(), {
+    expirationTtl: Math.max(MIN_NONCE_TTL_SECONDS, parseMaxAge(env.WEBHOOK_MAX_AGE_SECONDS) * 2),
+  });
+}
+
+async function getAuthMethod(request: Request, rawBody: string, env: Env): Promise<WebhookAuthMethod | null> {
+  const secret = env.WEBHOOK_SECRET || '';
+  const token = env.WEBHOOK_TOKEN || '';
+  const allowlist = (env.WEBHOOK_IP_ALLOWLIST || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (!secret && !token && allowlist.length === 0) {
+    // Tenants never inherit the opt-out (see getTenantEnv)
+    return env.WEBHOOK_ALLOW_UNAUTHENTICATED === 'true' ? 'none' : null;
+  }
+
+  const signature = request.headers.get('x-hub-signature') || request.headers.get('x-hub-signature-256') || '';
+  if (secret && signature && (await validateWebhookSignature(rawBody, signature, secret))) {
+    return 'signature';
+  }
+  if (token && validateBearerToken(request.headers.get('authorization') || '', token)) {
+    return 'token';
+  }
+  const ip = request.headers.get('cf-connecting-ip') || '';
+  if (ip && allowlist.length > 0 && isIpAllowed(ip, allowlist)) {
+    return 'ip';
+  }
+  return null;
+}
+
+function parseMaxAge(value: string | undefined): number {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_AGE_SECONDS;
+}
+
+/**
+ * Milliseconds since epoch from epoch seconds, epoch milliseconds or an ISO date
+ */
+function parseTimestamp(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
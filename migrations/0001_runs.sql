@@ -0,0 +1,19 @@
+-- Run history: one row per story job (updated on every attempt)
+CREATE TABLE IF NOT EXISTS runs (
+  id TEXT PRIMARY KEY,              -- job ID
+  issue_key TEXT NOT NULL,
+  project TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  outcome TEXT NOT NULL,            -- completed | skipped | failed
+  message TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL,
+  result TEXT,                      -- PipelineResult JSON
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_runs_issue_key ON runs (issue_key, started_at);
+CREATE INDEX IF NOT EXISTS idx_runs_project ON runs (project, started_at);
+CREATE INDEX IF NOT EXISTS idx_runs_started_at ON runs (started_at);
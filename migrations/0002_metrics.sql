@@ -0,0 +1,8 @@
+-- Prometheus samples aggregated across Worker instances (see lib/metrics.ts)
+-- Histograms are stored as their _bucket, _sum and _count samples
+CREATE TABLE IF NOT EXISTS metrics (
+  name TEXT NOT NULL,               -- sample name, e.g. llm_request_duration_seconds_bucket
+  labels TEXT NOT NULL,             -- serialized label set, e.g. provider="gemini",le="1"
+  value REAL NOT NULL,
+  PRIMARY KEY (name, labels)
+);
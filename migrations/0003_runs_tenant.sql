@@ -0,0 +1,4 @@
+-- Tenant of each run (NULL for the global Jira site)
+ALTER TABLE runs ADD COLUMN tenant TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_runs_tenant ON runs (tenant, started_at);
@@ -0,0 +1,4 @@
+-- LLM calls behind each run: prompts, raw output, provider/model and template per subtask type
+ALTER TABLE runs ADD COLUMN generations TEXT;      -- RunGeneration[] JSON
+ALTER TABLE runs ADD COLUMN input_tokens INTEGER;  -- summed over generations (and repairs)
+ALTER TABLE runs ADD COLUMN output_tokens INTEGER;
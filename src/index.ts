@@ -2,123 +2,865 @@
  * Cloudflare Worker - Jira Subtask Automation
  */
 
-import { JiraWebhookPayload, StoryContext, SubtaskType } from '../lib/types';
-import { validateWebhookSignature } from '../lib/validation';
-import { createSubtask, subtaskExists } from '../lib/jira';
-import { generateBackendDescription, generateFrontendDescription } from '../lib/gemini';
+import { Env, JiraWebhookPayload, QueueJob, RunOutcome, StoryContext, StoryJob, SubtaskType } from '../lib/types';
+import { validateBearerToken } from '../lib/validation';
+import { authenticateWebhook, recordWebhookNonce } from '../lib/webhookauth';
+import { descriptionToMarkdown, extractIssueContext, extractStoryContext } from '../lib/story';
+import { findIssue } from '../lib/jira';
+import { getInputFieldIds } from '../lib/fields';
+import { parseSubtaskType, SUBTASK_TYPES } from '../lib/registry';
+import { routeStory } from '../lib/routing';
+import { planAssignment } from '../lib/assignment';
+import { previewStory } from '../lib/preview';
+import { parseCommand } from '../lib/commands';
+import { processStory } from '../lib/pipeline';
+import { hasContentChange } from '../lib/drift';
+import { sha256Hex } from '../lib/crypto';
+import {
+  DEFAULT_TEMPLATE_PROJECT,
+  findUnknownVariables,
+  getTemplate,
+  listTemplates,
+  rollbackTemplate,
+  saveTemplate,
+} from '../lib/templates';
+import {
+  failBackfill,
+  getBackfill,
+  isBackfillPageJob,
+  listBackfillIssues,
+  pauseBackfill,
+  recordBackfillProgress,
+  resumeBackfill,
+  runBackfillPage,
+  startBackfill,
+} from '../lib/backfill';
+import {
+  deleteDeadLetter,
+  getDeadLetter,
+  listDeadLetters,
+  recordDeadLetter,
+} from '../lib/deadletter';
+import { getRun, getRunOutcome, listRuns, recordRun, recordWebhookDecision } from '../lib/runs';
+import { createLogger, getCorrelationId, Logger, logger } from '../lib/logger';
+import { flushMetrics, incrementCounter, observeHistogram, renderMetrics } from '../lib/metrics';
+import {
+  deleteTenant,
+  getTenant,
+  getTenantEnv,
+  isProjectAllowed,
+  isValidTenantId,
+  listTenants,
+  redactTenant,
+  restoreSecrets,
+  resolveTenantEnv,
+  saveTenant,
+  TenantInput,
+  validateTenant,
+} from '../lib/tenants';
+import { completeOAuth, consumeOAuthState, disconnectOAuth, getOAuthStatus, startOAuth } from '../lib/oauth';
 
-export interface Env {
-  GEMINI_API_KEY: string;
-  JIRA_BASE_URL: string;
-  JIRA_EMAIL: string;
-  JIRA_API_TOKEN: string;
-  WEBHOOK_SECRET: string;
-  JIRA_READY_STATUS?: string;
-}
+export type { Env };
+export { StoryLock } from '../lib/lock';
+
+// Attempts per job before it is moved to the dead-letter store
+const DEFAULT_JOB_MAX_ATTEMPTS = 3;
+
+const RUN_OUTCOMES: RunOutcome[] = ['completed', 'skipped', 'ignored', 'duplicate', 'failed'];
+
+// Answer for a malformed "types" routing override
+const TYPES_ERROR = `types must be a non-empty array of subtask types (${
+  Object.values(SUBTASK_TYPES).map(config => config.idempotencyLabel).join(', ')
+})`;
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    
-    // Only accept POST to /api/jira-webhook or /
+    const log = createLogger(getCorrelationId(request), { method: request.method, path: url.pathname });
+
+    let response: Response;
+    try {
+      response = await routeRequest(request, url, env, log);
+    } catch (error) {
+      log.error('Unhandled error', { error });
+      response = jsonResponse({ 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+
+    if (url.pathname === '/' || url.pathname.startsWith('/api/jira-webhook')) {
+      incrementCounter('board_helper_webhooks_total', { status: response.status });
+    }
+    ctx.waitUntil(flushMetrics(env));
+
+    response.headers.set('X-Correlation-ID', log.correlationId!);
+    return response;
+  },
+
+  async queue(batch: MessageBatch<QueueJob>, env: Env, ctx: ExecutionContext): Promise<void> {
+    const maxAttempts = Number(env.JOB_MAX_ATTEMPTS) || DEFAULT_JOB_MAX_ATTEMPTS;
+
+    for (const message of batch.messages) {
+      const job = message.body;
+      const log = isBackfillPageJob(job)
+        ? createLogger(job.backfillId, { backfillId: job.backfillId, page: job.page, tenant: job.tenant })
+        : createLogger(job.correlationId || job.id, { jobId: job.id, issueKey: job.issueKey, trigger: job.trigger, tenant: job.tenant });
+      const label = isBackfillPageJob(job)
+        ? `Backfill ${job.backfillId} page ${job.page}`
+        : `Job ${job.id} (${job.issueKey})`;
+      const startedAt = Date.now();
+      try {
+        const jobEnv = await resolveTenantEnv(job.tenant, env);
+        if (isBackfillPageJob(job)) {
+          await runBackfillPage(job, jobEnv, log);
+        } else {
+          const result = await processStory(job, jobEnv, log);
+          log.info(`${label}: ${result.message}`, { attempt: message.attempts, durationMs: Date.now() - startedAt });
+          incrementCounter('board_helper_runs_total', { outcome: getRunOutcome(result) });
+          observeHistogram('board_helper_run_duration_seconds', (Date.now() - startedAt) / 1000);
+          await recordRun(job, { result }, message.attempts, startedAt, env, log);
+          if (job.backfillId) {
+            await recordBackfillProgress(job.backfillId, job.issueKey, 'completed', result.message, env);
+          }
+        }
+        message.ack();
+      } catch (error) {
+        log.error(`${label} failed on attempt ${message.attempts}`, { error, attempt: message.attempts });
+        if (!isBackfillPageJob(job)) {
+          observeHistogram('board_helper_run_duration_seconds', (Date.now() - startedAt) / 1000);
+          await recordRun(job, { error }, message.attempts, startedAt, env, log);
+        }
+        if (message.attempts >= maxAttempts) {
+          if (isBackfillPageJob(job)) {
+            await failBackfill(job.backfillId, error, env);
+          } else {
+            incrementCounter('board_helper_runs_total', { outcome: 'failed' });
+            await recordDeadLetter(job, error, message.attempts, env, log);
+            if (job.backfillId) {
+              const reason = error instanceof Error ? error.message : String(error);
+              await recordBackfillProgress(job.backfillId, job.issueKey, 'failed', reason, env);
+            }
+          }
+          message.ack();
+        } else {
+          if (!isBackfillPageJob(job)) {
+            incrementCounter('board_helper_job_retries_total');
+          }
+          // Exponential backoff: 30s, 60s, 120s, ...
+          message.retry({ delaySeconds: 30 * 2 ** (message.attempts - 1) });
+        }
+      }
+    }
+
+    ctx.waitUntil(flushMetrics(env));
+  },
+} satisfies ExportedHandler<Env, QueueJob>;
+
+/**
+ * Dispatch a request to the webhook, metrics or admin API handlers
+ */
+async function routeRequest(request: Request, url: URL, env: Env, log: Logger): Promise<Response> {
+  // Jira webhook: POST to /api/jira-webhook or /
+  if (url.pathname === '/' || url.pathname === '/api/jira-webhook') {
     if (request.method !== 'POST') {
       return jsonResponse({ error: 'Method not allowed' }, 405);
     }
-    if (url.pathname !== '/' && url.pathname !== '/api/jira-webhook') {
-      return jsonResponse({ error: 'Not found' }, 404);
+    return await handleWebhook(request, env, log);
+  }
+
+  // Tenant webhook: POST to /api/jira-webhook/:tenant
+  const tenantWebhookMatch = url.pathname.match(/^\/api\/jira-webhook\/([^/]+)\/?$/);
+  if (tenantWebhookMatch) {
+    if (request.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    const tenant = isValidTenantId(tenantWebhookMatch[1]) ? await getTenant(tenantWebhookMatch[1], env) : null;
+    if (!tenant) {
+      return jsonResponse({ error: 'Unknown tenant' }, 404);
     }
+    return await handleWebhook(request, getTenantEnv(tenant, env), log.child({ tenant: tenant.id }));
+  }
 
-    try {
-      const rawBody = await request.text();
+  // Prometheus metrics (METRICS_TOKEN, or the admin token when unset)
+  if (url.pathname === '/metrics') {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    const token = env.METRICS_TOKEN || env.ADMIN_API_TOKEN || '';
+    if (!validateBearerToken(request.headers.get('authorization') || '', token)) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    return new Response(await renderMetrics(env), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  }
 
-      // Validate webhook signature if configured
-      const webhookSecret = env.WEBHOOK_SECRET || '';
-      const signature = request.headers.get('x-hub-signature') || '';
-      if (webhookSecret && signature && !(await validateWebhookSignature(rawBody, signature, webhookSecret))) {
-        return jsonResponse({ error: 'Unauthorized' }, 401);
-      }
+  // Jira OAuth 2.0 (3LO): an admin starts the flow, Atlassian redirects back to the callback
+  if (url.pathname === '/oauth/start') {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    if (!validateBearerToken(request.headers.get('authorization') || '', env.ADMIN_API_TOKEN || '')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    const requestEnv = await getRequestEnv(url, env);
+    if (!requestEnv) {
+      return jsonResponse({ error: 'Unknown tenant' }, 404);
+    }
+    const authorizeUrl = await startOAuth(getOAuthRedirectUri(url, env), requestEnv);
+    return new Response(JSON.stringify({ authorizeUrl }), {
+      status: 302,
+      headers: { Location: authorizeUrl, 'Content-Type': 'application/json' },
+    });
+  }
+  if (url.pathname === '/oauth/callback') {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    return await handleOAuthCallback(url, env, log);
+  }
 
-      // Parse payload (sanitize Jira's unescaped newlines)
-      const payload = parseJiraPayload(rawBody);
-      if (!payload?.issue?.key) {
-        return jsonResponse({ error: 'Invalid payload' }, 400);
-      }
+  // Admin API
+  if (url.pathname.startsWith('/api/')) {
+    if (!validateBearerToken(request.headers.get('authorization') || '', env.ADMIN_API_TOKEN || '')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (url.pathname.startsWith('/api/tenants')) {
+      return await handleTenants(request, url, env);
+    }
 
-      const { key: issueKey, fields } = payload.issue;
-      const issueType = fields.issuetype.name;
+    // ?tenant=<id> runs the request against that tenant's Jira site and settings
+    const requestEnv = await getRequestEnv(url, env);
+    if (!requestEnv) {
+      return jsonResponse({ error: 'Unknown tenant' }, 404);
+    }
+    if (requestEnv.TENANT_ID) {
+      env = requestEnv;
+      log = log.child({ tenant: requestEnv.TENANT_ID });
+    }
 
-      // Only process Stories
-      if (issueType !== 'Story') {
-        return jsonResponse({ message: `Ignored - not a Story (${issueType})` });
+    if (url.pathname === '/api/oauth') {
+      if (request.method === 'GET') {
+        const connection = await getOAuthStatus(env);
+        return jsonResponse(connection ? { auth: 'oauth', ...connection } : { auth: 'basic' });
+      }
+      if (request.method === 'DELETE') {
+        await disconnectOAuth(env);
+        return jsonResponse({ message: 'Disconnected - Jira calls use Basic auth', auth: 'basic' });
       }
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
 
-      // Check status transition
-      const targetStatus = env.JIRA_READY_STATUS || 'Ready for Dev';
-      const statusChanged = payload.changelog?.items?.some(
-        item => item.field === 'status' && item.toString.toLowerCase() === targetStatus.toLowerCase()
-      );
-      if (!statusChanged) {
-        return jsonResponse({ message: `Ignored - status not "${targetStatus}"` });
+    if (url.pathname === '/api/preview') {
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return await handlePreview(request, env, log);
+    }
+    const generateMatch = url.pathname.match(/^\/api\/stories\/([A-Z][A-Z0-9_]*-\d+)\/generate\/?$/i);
+    if (generateMatch) {
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return await handleGenerate(request, generateMatch[1].toUpperCase(), env, log);
+    }
+    if (url.pathname.startsWith('/api/templates')) {
+      return await handleTemplates(request, url, env);
+    }
+    if (url.pathname.startsWith('/api/backfills')) {
+      return await handleBackfills(request, url, env, log);
+    }
+    if (url.pathname.startsWith('/api/dead-letters')) {
+      return await handleDeadLetters(request, url, env);
+    }
+    if (url.pathname.startsWith('/api/runs')) {
+      if (request.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
       }
+      return await handleRuns(url, env);
+    }
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
+
+/**
+ * Tenant env for ?tenant=<id>, the global env without it, or null for an unknown tenant
+ */
+async function getRequestEnv(url: URL, env: Env): Promise<Env | null> {
+  const tenantId = url.searchParams.get('tenant');
+  if (!tenantId) {
+    return env;
+  }
+  const tenant = isValidTenantId(tenantId) ? await getTenant(tenantId, env) : null;
+  return tenant && getTenantEnv(tenant, env);
+}
 
-      console.log(`Processing ${issueKey}...`);
+/**
+ * Redirect URI registered for the OAuth app (JIRA_OAUTH_REDIRECT_URI, default: this Worker's /oauth/callback)
+ */
+function getOAuthRedirectUri(url: URL, env: Env): string {
+  return env.JIRA_OAUTH_REDIRECT_URI || `${url.origin}/oauth/callback`;
+}
 
-      // Extract story context
-      const storyContext = extractStoryContext(payload);
+/**
+ * Finish the OAuth flow: check the one-time state, exchange the code and store the tokens
+ */
+async function handleOAuthCallback(url: URL, env: Env, log: Logger): Promise<Response> {
+  const denied = url.searchParams.get('error');
+  if (denied) {
+    return jsonResponse({ error: `Authorization failed: ${url.searchParams.get('error_description') || denied}` }, 400);
+  }
 
-      // Check idempotency
-      const [backendExists, frontendExists] = await Promise.all([
-        subtaskExists(issueKey, SubtaskType.BACKEND, env),
-        subtaskExists(issueKey, SubtaskType.FRONTEND, env),
-      ]);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  if (!code || !state) {
+    return jsonResponse({ error: 'Missing code or state' }, 400);
+  }
 
-      if (backendExists && frontendExists) {
-        return jsonResponse({ message: 'Subtasks already exist', story: issueKey });
-      }
+  const tenant = await consumeOAuthState(state, env);
+  if (tenant === undefined) {
+    return jsonResponse({ error: 'Invalid or expired state - start again at /oauth/start' }, 400);
+  }
 
-      // Generate AI descriptions in PARALLEL for speed
-      const [backendDesc, frontendDesc] = await Promise.all([
-        !backendExists ? generateBackendDescription(storyContext, env) : null,
-        !frontendExists ? generateFrontendDescription(storyContext, env) : null,
-      ]);
-
-      // Create subtasks
-      const subtasksCreated: { type: SubtaskType; key: string }[] = [];
-
-      if (backendDesc) {
-        const subtask = await createSubtask(issueKey, {
-          summary: `[Backend] ${storyContext.summary}`,
-          description: backendDesc.content,
-          subtaskType: SubtaskType.BACKEND,
-          labels: ['auto-generated', 'backend'],
-        }, env);
-        subtasksCreated.push({ type: SubtaskType.BACKEND, key: subtask.key });
-        console.log(`Created backend subtask: ${subtask.key}`);
-      }
+  const site = await completeOAuth(code, getOAuthRedirectUri(url, env), await resolveTenantEnv(tenant ?? undefined, env));
+  log.info(`Connected ${site.siteUrl} with OAuth`, { tenant, cloudId: site.cloudId });
+  return jsonResponse({ message: 'Connected', tenant, ...site });
+}
+
+/**
+ * Validate the webhook, enqueue a story job and acknowledge immediately
+ * Jira Automation times out on long requests, so all Jira/LLM work happens in the queue consumer
+ */
+async function handleWebhook(request: Request, env: Env, log: Logger): Promise<Response> {
+  const rawBody = await request.text();
+
+  // Parse payload (sanitize Jira's unescaped newlines)
+  const payload = parseJiraPayload(rawBody);
+
+  // Signature, bearer token or allowed IP, then timestamp/nonce replay checks
+  const auth = await authenticateWebhook(request, rawBody, payload?.timestamp, env);
+  if (!auth.ok) {
+    log.warn(`Rejected webhook: ${auth.reason}`, { ip: request.headers.get('cf-connecting-ip') });
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  if (!payload?.issue?.key) {
+    return jsonResponse({ error: 'Invalid payload' }, 400);
+  }
+
+  // A repeated delivery was already handled: reject it without queueing it again
+  if (auth.replayed) {
+    const message = 'Duplicate - delivery already received';
+    log.warn(`Rejected webhook: replayed delivery for ${payload.issue.key}`, { ip: request.headers.get('cf-connecting-ip') });
+    await recordWebhookDecision(payload.issue.key, `webhook:${payload.webhookEvent || 'unknown'}`, 'duplicate', message, env, log);
+    return jsonResponse({ error: message, story: payload.issue.key }, 409);
+  }
+
+  // The nonce is only recorded once the delivery is handled, so Jira's retries after a failure still get through
+  const response = await routeWebhook(request, rawBody, payload, env, log);
+  if (response.ok) {
+    await recordWebhookNonce(auth.nonce, env);
+  }
+  return response;
+}
+
+/**
+ * Route an authenticated webhook: ignore it, or enqueue a story job and report the routing decision
+ */
+async function routeWebhook(
+  request: Request,
+  rawBody: string,
+  payload: JiraWebhookPayload,
+  env: Env,
+  log: Logger
+): Promise<Response> {
+  const { key: issueKey, fields } = payload.issue;
+  const issueType = fields.issuetype.name;
+  const ignore = (message: string) => ignoreWebhook(payload, message, env, log);
+
+  // Only process Stories
+  if (issueType !== 'Story') {
+    return ignore(`Ignored - not a Story (${issueType})`);
+  }
+
+  // Tenants may limit which of their projects are handled
+  if (!isProjectAllowed(issueKey.split('-')[0], env)) {
+    return ignore('Ignored - project not handled for this tenant');
+  }
+
+  // Redeliveries carry the same webhook identifier (native webhooks) or the same body (Automation)
+  const deliveryId = request.headers.get('x-atlassian-webhook-identifier') || (await sha256Hex(rawBody));
+
+  if (payload.webhookEvent === 'comment_created') {
+    return handleCommentWebhook(payload, deliveryId, env, log);
+  }
+
+  // Check status transition
+  const targetStatus = env.JIRA_READY_STATUS || 'Ready for Dev';
+  const statusChanged = payload.changelog?.items?.some(
+    item => item.field === 'status' && item.toString.toLowerCase() === targetStatus.toLowerCase()
+  );
+  if (!statusChanged) {
+    if (hasContentChange(payload.changelog?.items, issueKey.split('-')[0], env)) {
+      return handleStoryUpdate(payload, deliveryId, env, log);
+    }
+    return ignore(`Ignored - status not "${targetStatus}"`);
+  }
+
+  const job: StoryJob = {
+    id: crypto.randomUUID(),
+    issueKey,
+    trigger: `status:${targetStatus}`,
+    deliveryId,
+    issue: payload.issue,
+    correlationId: log.correlationId,
+    tenant: env.TENANT_ID,
+    receivedAt: new Date().toISOString(),
+  };
+
+  // Report the routing decision up front; pooled assignees are picked when the subtask is created
+  // Routing and assignment rules only read standard fields, so mapped custom fields are not needed here
+  // Computed before queueing so malformed rules fail the request without a job having been sent
+  const context = extractStoryContext(payload);
+  const routing = routeStory(context, env);
+  const assignments = Object.fromEntries(
+    routing.types.map(type => [type, planAssignment(type, context, env)])
+  );
+
+  await env.SUBTASK_QUEUE.send(job);
+
+  log.info(`Queued ${issueKey}`, { issueKey, jobId: job.id });
+  return jsonResponse({ message: 'Queued', story: issueKey, jobId: job.id, routing, assignments }, 202);
+}
+
+/**
+ * Answer a webhook that needs no job, recording the decision in the run history
+ */
+async function ignoreWebhook(payload: JiraWebhookPayload, message: string, env: Env, log: Logger): Promise<Response> {
+  await recordWebhookDecision(payload.issue.key, `webhook:${payload.webhookEvent || 'unknown'}`, 'ignored', message, env, log);
+  return jsonResponse({ message });
+}
+
+/**
+ * Queue a "/board-helper ..." command found in a new story comment
+ * The consumer fetches the full story: comment payloads carry abbreviated issue fields only
+ */
+async function handleCommentWebhook(payload: JiraWebhookPayload, deliveryId: string, env: Env, log: Logger): Promise<Response> {
+  const { comment, issue } = payload;
+  if (!comment) {
+    return jsonResponse({ error: 'Invalid payload' }, 400);
+  }
+
+  const command = parseCommand(descriptionToMarkdown(comment.body));
+  if (!command) {
+    return ignoreWebhook(payload, 'Ignored - no command', env, log);
+  }
+
+  const job: StoryJob = {
+    id: crypto.randomUUID(),
+    issueKey: issue.key,
+    trigger: `comment:${comment.id}`,
+    deliveryId,
+    command: {
+      ...command,
+      commentId: comment.id,
+      authorAccountId: comment.author.accountId,
+      authorName: comment.author.displayName,
+    },
+    correlationId: log.correlationId,
+    tenant: env.TENANT_ID,
+    receivedAt: new Date().toISOString(),
+  };
+  await env.SUBTASK_QUEUE.send(job);
+
+  log.info(`Queued ${command.action} command for ${issue.key}`, { issueKey: issue.key, jobId: job.id });
+  return jsonResponse({ message: 'Queued', story: issue.key, command: command.action, jobId: job.id }, 202);
+}
+
+/**
+ * Queue a drift check for a story whose description or acceptance criteria changed
+ */
+async function handleStoryUpdate(payload: JiraWebhookPayload, deliveryId: string, env: Env, log: Logger): Promise<Response> {
+  const job: StoryJob = {
+    id: crypto.randomUUID(),
+    issueKey: payload.issue.key,
+    trigger: 'story-updated',
+    deliveryId,
+    issue: payload.issue,
+    drift: true,
+    correlationId: log.correlationId,
+    tenant: env.TENANT_ID,
+    receivedAt: new Date().toISOString(),
+  };
+  await env.SUBTASK_QUEUE.send(job);
+
+  log.info(`Queued drift check for ${job.issueKey}`, { issueKey: job.issueKey, jobId: job.id });
+  return jsonResponse({ message: 'Queued', story: job.issueKey, jobId: job.id }, 202);
+}
+
+/**
+ * Dry-run the pipeline for a webhook-shaped payload or { "issueKey": "PROJ-1" }
+ * Optional "types" overrides routing, e.g. ["backend", "qa"]
+ */
+async function handlePreview(request: Request, env: Env, log: Logger): Promise<Response> {
+  const body = parseJiraPayload(await request.text()) as
+    (Partial<JiraWebhookPayload> & { issueKey?: string; types?: unknown }) | null;
+  if (!body || (!body.issue?.key && !body.issueKey)) {
+    return jsonResponse({ error: 'Expected a webhook payload or an issueKey' }, 400);
+  }
 
-      if (frontendDesc) {
-        const subtask = await createSubtask(issueKey, {
-          summary: `[Frontend] ${storyContext.summary}`,
-          description: frontendDesc.content,
-          subtaskType: SubtaskType.FRONTEND,
-          labels: ['auto-generated', 'frontend'],
-        }, env);
-        subtasksCreated.push({ type: SubtaskType.FRONTEND, key: subtask.key });
-        console.log(`Created frontend subtask: ${subtask.key}`);
+  const types = parseTypesOverride(body.types);
+  if (types === null) {
+    return jsonResponse({ error: TYPES_ERROR }, 400);
+  }
+
+  const issueKey = body.issue?.key || body.issueKey!;
+  const inputFields = await getInputFieldIds(issueKey, env, log);
+  let context: StoryContext;
+  if (body.issue?.key) {
+    context = extractStoryContext(body as JiraWebhookPayload, inputFields);
+  } else {
+    const issue = await findIssue(issueKey, env, log);
+    if (!issue) {
+      return jsonResponse({ error: `Issue ${issueKey} not found` }, 404);
+    }
+    context = extractIssueContext(issue, inputFields);
+  }
+
+  return jsonResponse(await previewStory(context, env, types, log));
+}
+
+/**
+ * Manually run the pipeline for a story, fetched in full from Jira
+ * Body (optional): { "types": ["backend", "qa"], "force": true }
+ */
+async function handleGenerate(request: Request, issueKey: string, env: Env, log: Logger): Promise<Response> {
+  const rawBody = await request.text();
+  let body: { types?: unknown; force?: boolean } = {};
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+    }
+  }
+
+  const types = parseTypesOverride(body.types);
+  if (types === null) {
+    return jsonResponse({ error: TYPES_ERROR }, 400);
+  }
+
+  const issue = await findIssue(issueKey, env, log);
+  if (!issue) {
+    return jsonResponse({ error: `Issue ${issueKey} not found` }, 404);
+  }
+  if (issue.fields.issuetype.subtask) {
+    return jsonResponse({ error: `${issueKey} is a subtask` }, 400);
+  }
+
+  const jobId = crypto.randomUUID();
+  const job: StoryJob = {
+    id: jobId,
+    issueKey,
+    trigger: 'manual',
+    deliveryId: jobId,
+    context: extractIssueContext(issue, await getInputFieldIds(issueKey, env, log)),
+    options: {
+      types,
+      force: body.force === true,
+    },
+    correlationId: log.correlationId,
+    tenant: env.TENANT_ID,
+    receivedAt: new Date().toISOString(),
+  };
+  await env.SUBTASK_QUEUE.send(job);
+
+  log.info(`Queued manual run for ${issueKey}`, { issueKey, jobId });
+  return jsonResponse({ message: 'Queued', story: issueKey, jobId }, 202);
+}
+
+/**
+ * Parse a "types" routing override against the subtask type registry
+ * @returns Subtask types, undefined when no override is given, or null when it is invalid
+ */
+function parseTypesOverride(value: unknown): SubtaskType[] | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  const types = value.map(entry => (typeof entry === 'string' ? parseSubtaskType(entry) : undefined));
+  return types.every((type): type is SubtaskType => type !== undefined) ? types : null;
+}
+
+/**
+ * Manage versioned prompt templates per project ("*" for all) and subtask type
+ *   GET  /api/templates
+ *   GET  /api/templates/:project/:type
+ *   PUT  /api/templates/:project/:type            { "template": "...{{summary}}...", "note": "..." }
+ *   POST /api/templates/:project/:type/rollback   { "version": 2 } (default: previous version)
+ */
+async function handleTemplates(request: Request, url: URL, env: Env): Promise<Response> {
+  const [, rawProject, rawType, action] =
+    url.pathname.match(/^\/api\/templates(?:\/([^/]+)\/([^/]+))?(?:\/([^/]+))?\/?$/) || [];
+
+  if (!rawProject) {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    return jsonResponse({ items: await listTemplates(env) });
+  }
+
+  const project = decodeURIComponent(rawProject).toUpperCase();
+  if (project !== DEFAULT_TEMPLATE_PROJECT && !/^[A-Z][A-Z0-9_]*$/.test(project)) {
+    return jsonResponse({ error: `Invalid project key "${project}"` }, 400);
+  }
+  const type = parseSubtaskType(rawType);
+  if (!type) {
+    return jsonResponse({ error: `Unknown subtask type "${rawType}"` }, 400);
+  }
+
+  if (!action && request.method === 'GET') {
+    const record = await getTemplate(project, type, env);
+    return record ? jsonResponse(record) : jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (!action && request.method === 'PUT') {
+    let body: { template?: unknown; note?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+    if (typeof body.template !== 'string' || !body.template.trim()) {
+      return jsonResponse({ error: 'Expected a "template" string' }, 400);
+    }
+    const unknown = findUnknownVariables(body.template);
+    if (unknown.length > 0) {
+      return jsonResponse({ error: `Unknown template variables: ${unknown.join(', ')}` }, 400);
+    }
+    const note = typeof body.note === 'string' ? body.note : undefined;
+    return jsonResponse(await saveTemplate(project, type, body.template, note, env));
+  }
+
+  if (action === 'rollback' && request.method === 'POST') {
+    const rawBody = await request.text();
+    let body: { version?: unknown } = {};
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return jsonResponse({ error: 'Invalid JSON body' }, 400);
       }
+    }
+    if (body.version !== undefined && !Number.isInteger(body.version)) {
+      return jsonResponse({ error: '"version" must be an integer' }, 400);
+    }
+    const record = await rollbackTemplate(project, type, body.version as number | undefined, env);
+    return record ? jsonResponse(record) : jsonResponse({ error: 'Template or version not found' }, 404);
+  }
 
-      console.log(`Done: ${issueKey}`);
-      return jsonResponse({ message: 'Subtasks created', story: issueKey, subtasks: subtasksCreated });
+  return jsonResponse({ error: 'Not found' }, 404);
+}
 
-    } catch (error) {
-      console.error('Error:', error);
-      return jsonResponse({ 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }, 500);
+/**
+ * Start, inspect, pause and resume JQL backfills
+ *   POST /api/backfills                 { "jql": "project = PROJ AND status = 'Ready to Start'" }
+ *   GET  /api/backfills/:id[?cursor=]   run state and per-issue progress
+ *   POST /api/backfills/:id/pause
+ *   POST /api/backfills/:id/resume
+ */
+async function handleBackfills(request: Request, url: URL, env: Env, log: Logger): Promise<Response> {
+  const [, id, action] = url.pathname.match(/^\/api\/backfills(?:\/([^/]+))?(?:\/([^/]+))?\/?$/) || [];
+
+  if (!id) {
+    if (request.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
     }
-  },
-};
+    let body: { jql?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+    if (typeof body.jql !== 'string' || !body.jql.trim()) {
+      return jsonResponse({ error: 'Expected a "jql" string' }, 400);
+    }
+    return jsonResponse(await startBackfill(body.jql, env, log), 202);
+  }
+
+  if (!action && request.method === 'GET') {
+    const run = await getBackfill(id, env);
+    if (!run) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+    const issues = await listBackfillIssues(id, env, url.searchParams.get('cursor') || undefined);
+    return jsonResponse({ ...run, issues: issues.items, cursor: issues.cursor });
+  }
+  if ((action === 'pause' || action === 'resume') && request.method === 'POST') {
+    const run = action === 'pause' ? await pauseBackfill(id, env) : await resumeBackfill(id, env, log);
+    return run ? jsonResponse(run) : jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
+
+/**
+ * Inspect, re-drive and discard dead-lettered jobs
+ *   GET    /api/dead-letters[?cursor=]
+ *   GET    /api/dead-letters/:id
+ *   POST   /api/dead-letters/:id/redrive
+ *   DELETE /api/dead-letters/:id
+ */
+async function handleDeadLetters(request: Request, url: URL, env: Env): Promise<Response> {
+  const [, id, action] = url.pathname.match(/^\/api\/dead-letters(?:\/([^/]+))?(?:\/([^/]+))?\/?$/) || [];
+
+  if (!id) {
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    return jsonResponse(await listDeadLetters(env, url.searchParams.get('cursor') || undefined));
+  }
+
+  const record = await getDeadLetter(id, env);
+  if (!record) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  if (!action && request.method === 'GET') {
+    return jsonResponse(record);
+  }
+  if (!action && request.method === 'DELETE') {
+    await deleteDeadLetter(id, env);
+    return jsonResponse({ message: 'Deleted', id });
+  }
+  if (action === 'redrive' && request.method === 'POST') {
+    await env.SUBTASK_QUEUE.send(record.job);
+    await deleteDeadLetter(id, env);
+    logger.info(`Re-drove job ${id} for ${record.job.issueKey}`, { jobId: id, issueKey: record.job.issueKey });
+    return jsonResponse({ message: 'Queued', story: record.job.issueKey, jobId: id }, 202);
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
+
+/**
+ * Manage tenants (client Jira sites with their own credentials and settings)
+ *   GET    /api/tenants
+ *   GET    /api/tenants/:id
+ *   PUT    /api/tenants/:id   { "jira": { "baseUrl", "email", "apiToken" }, "webhookSecret", "readyStatus", "projects", "llm", "settings" }
+ *   DELETE /api/tenants/:id
+ * Credentials and API keys are masked in responses
+ */
+async function handleTenants(request: Request, url: URL, env: Env): Promise<Response> {
+  const [, id] = url.pathname.match(/^\/api\/tenants(?:\/([^/]+))?\/?$/) || [];
+
+  if (!id) {
+    if (url.pathname.replace(/\/$/, '') !== '/api/tenants') {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    return jsonResponse({ items: await listTenants(env) });
+  }
+  if (!isValidTenantId(id)) {
+    return jsonResponse({ error: `Invalid tenant ID "${id}" (lowercase letters, digits and dashes)` }, 400);
+  }
+
+  if (request.method === 'GET') {
+    const tenant = await getTenant(id, env);
+    return tenant ? jsonResponse(redactTenant(tenant)) : jsonResponse({ error: 'Not found' }, 404);
+  }
+  if (request.method === 'PUT') {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+    // A tenant read back from GET carries redacted secrets; keep the stored ones
+    const input = restoreSecrets(body, await getTenant(id, env));
+    const errors = validateTenant(input);
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid tenant', details: errors }, 400);
+    }
+    const tenant = await saveTenant(id, input as TenantInput, env);
+    return jsonResponse(redactTenant(tenant));
+  }
+  if (request.method === 'DELETE') {
+    if (!(await getTenant(id, env))) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+    await deleteTenant(id, env);
+    return jsonResponse({ message: 'Deleted', id });
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405);
+}
+
+/**
+ * Query the run history
+ *   GET /api/runs[?story=&project=&outcome=&from=&to=&limit=&offset=]
+ *   GET /api/runs/:id
+ * from/to are ISO dates or timestamps matched against the run start time
+ */
+async function handleRuns(url: URL, env: Env): Promise<Response> {
+  const [, id] = url.pathname.match(/^\/api\/runs(?:\/([^/]+))?\/?$/) || [];
+
+  if (id) {
+    const run = await getRun(id, env);
+    return run ? jsonResponse(run) : jsonResponse({ error: 'Not found' }, 404);
+  }
+  if (url.pathname.replace(/\/$/, '') !== '/api/runs') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const params = url.searchParams;
+  const outcome = params.get('outcome') || undefined;
+  if (outcome && !RUN_OUTCOMES.includes(outcome as RunOutcome)) {
+    return jsonResponse({ error: `outcome must be one of: ${RUN_OUTCOMES.join(', ')}` }, 400);
+  }
+
+  let from: string | undefined;
+  let to: string | undefined;
+  try {
+    from = parseDateParam(params.get('from'));
+    to = parseDateParam(params.get('to'));
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Invalid date' }, 400);
+  }
+
+  const limit = Number(params.get('limit')) || undefined;
+  const offset = Number(params.get('offset')) || undefined;
+  const runs = await listRuns({
+    story: params.get('story')?.toUpperCase() || undefined,
+    project: params.get('project')?.toUpperCase() || undefined,
+    outcome: outcome as RunOutcome | undefined,
+    from,
+    to,
+    limit,
+    offset,
+  }, env);
+  return jsonResponse({ runs, count: runs.length });
+}
+
+function parseDateParam(value: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
 
 function jsonResponse(data: any, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -136,47 +878,7 @@ function parseJiraPayload(rawBody: string): JiraWebhookPayload | null {
     );
     return JSON.parse(sanitized);
   } catch {
-    console.error('Failed to parse payload');
+    logger.warn('Failed to parse payload');
     return null;
   }
 }
-
-function extractStoryContext(payload: JiraWebhookPayload): StoryContext {
-  const description = payload.issue.fields.description || '';
-  const cleaned = cleanJiraMarkup(description);
-  
-  return {
-    key: payload.issue.key,
-    summary: payload.issue.fields.summary || '',
-    description: cleaned,
-    acceptanceCriteria: extractAcceptanceCriteria(cleaned),
-    figmaLink: extractFigmaLink(description),
-    labels: payload.issue.fields.labels || [],
-    components: payload.issue.fields.components?.map((c: any) => c.name) || [],
-  };
-}
-
-function cleanJiraMarkup(text: string): string {
-  if (!text) return '';
-  return text
-    .replace(/\{panel[^}]*\}|\{panel\}/g, '')
-    .replace(/h(\d)\.\s*/g, '\n## ')
-    .replace(/\*([^*]+)\*/g, '$1')
-    .replace(/_([^_]+)_/g, '$1')
-    .replace(/\{\{([^}]+)\}\}/g, '`$1`')
-    .replace(/\[([^\]|]+)\|([^\]|]+)(?:\|[^\]]+)?\]/g, '$1 ($2)')
-    .replace(/\[([^\]]+)\]/g, '$1')
-    .replace(/\|smart-link\]|\|smart-embed\]/g, '')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-}
-
-function extractFigmaLink(text: string): string | undefined {
-  const match = text.match(/https?:\/\/(?:www\.)?figma\.com\/(?:design|file)\/[^\s\]|]+/i);
-  return match?.[0]?.replace(/[|)\]]+$/, '');
-}
-
-function extractAcceptanceCriteria(text: string): string | undefined {
-  const match = text.match(/(?:acceptance criteria|ac)[:\s]*\n([\s\S]*?)(?=\n##|\n\*\*[A-Z]|$)/i);
-  return match?.[1]?.trim();
-}
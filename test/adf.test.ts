@@ -0,0 +1,252 @@
+/**
+ * Fixture tests for the Markdown to ADF converter
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { adfToMarkdown, markdownToADF } from '../lib/adf';
+import { AdfMark, AdfNode } from '../lib/types';
+import { GEMINI_OUTPUTS } from './fixtures';
+
+/**
+ * Convert Markdown and drop the random localIds of task lists so documents compare equal
+ */
+function convert(markdown: string): AdfNode[] {
+  const strip = (node: AdfNode): AdfNode => {
+    const { localId, ...attrs } = node.attrs || {};
+    return {
+      ...node,
+      ...(node.attrs && { attrs }),
+      ...(node.content && { content: node.content.map(strip) }),
+    };
+  };
+  return markdownToADF(markdown).content.map(strip);
+}
+
+const text = (value: string, ...marks: AdfMark[]): AdfNode =>
+  marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+
+const link = (href: string): AdfMark => ({ type: 'link', attrs: { href } });
+
+describe('markdownToADF', () => {
+  it('returns an empty paragraph for empty input', () => {
+    assert.deepEqual(markdownToADF(''), { type: 'doc', version: 1, content: [paragraph()] });
+  });
+
+  it('converts inline links, autolinks and bare URLs', () => {
+    assert.deepEqual(convert('See [the docs](https://example.com/docs), <https://a.example> or https://b.example/x.'), [
+      paragraph(
+        text('See '),
+        text('the docs', link('https://example.com/docs')),
+        text(', '),
+        text('https://a.example', link('https://a.example')),
+        text(' or '),
+        text('https://b.example/x', link('https://b.example/x')),
+        text('.')
+      ),
+    ]);
+  });
+
+  it('keeps marks inside link text and combines code only with links', () => {
+    assert.deepEqual(convert('[**bold** and `code`](https://example.com)'), [
+      paragraph(
+        text('bold', link('https://example.com'), { type: 'strong' }),
+        text(' and ', link('https://example.com')),
+        text('code', link('https://example.com'), { type: 'code' })
+      ),
+    ]);
+  });
+
+  it('does not turn links inside inline code into link marks', () => {
+    assert.deepEqual(convert('Call `[docs](https://example.com)` or `https://api.example.com/v1`'), [
+      paragraph(
+        text('Call '),
+        text('[docs](https://example.com)', { type: 'code' }),
+        text(' or '),
+        text('https://api.example.com/v1', { type: 'code' })
+      ),
+    ]);
+  });
+
+  it('does not turn links inside fenced code into link marks', () => {
+    assert.deepEqual(convert('```\nsee [docs](https://example.com)\n```'), [
+      { type: 'codeBlock', attrs: { language: 'plaintext' }, content: [text('see [docs](https://example.com)')] },
+    ]);
+  });
+
+  it('nests bullet and ordered lists by indentation', () => {
+    assert.deepEqual(convert('- One\n  1. First\n  2. Second\n- Two'), [
+      {
+        type: 'bulletList',
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              paragraph(text('One')),
+              {
+                type: 'orderedList',
+                attrs: { order: 1 },
+                content: [
+                  { type: 'listItem', content: [paragraph(text('First'))] },
+                  { type: 'listItem', content: [paragraph(text('Second'))] },
+                ],
+              },
+            ],
+          },
+          { type: 'listItem', content: [paragraph(text('Two'))] },
+        ],
+      },
+    ]);
+  });
+
+  it('nests lists three levels deep and returns to the outer level', () => {
+    assert.deepEqual(convert('1. One\n   - Two\n     - Three\n2. Four'), [
+      {
+        type: 'orderedList',
+        attrs: { order: 1 },
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              paragraph(text('One')),
+              {
+                type: 'bulletList',
+                content: [
+                  {
+                    type: 'listItem',
+                    content: [
+                      paragraph(text('Two')),
+                      { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Three'))] }] },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+          { type: 'listItem', content: [paragraph(text('Four'))] },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps continuation paragraphs inside a list item', () => {
+    assert.deepEqual(convert('- Item\n\n  More about it\n- Next'), [
+      {
+        type: 'bulletList',
+        content: [
+          { type: 'listItem', content: [paragraph(text('Item')), paragraph(text('More about it'))] },
+          { type: 'listItem', content: [paragraph(text('Next'))] },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps the start number of ordered lists', () => {
+    assert.deepEqual(convert('3. Third\n4. Fourth')[0].attrs, { order: 3 });
+  });
+
+  it('flattens blocks Jira does not allow in list items', () => {
+    assert.deepEqual(convert('- Item\n  ### Heading\n  ---'), [
+      {
+        type: 'bulletList',
+        content: [{ type: 'listItem', content: [paragraph(text('Item')), paragraph(text('Heading'))] }],
+      },
+    ]);
+  });
+
+  it('converts tables, padding short rows and unescaping pipes', () => {
+    const cell = (type: string, value: string): AdfNode => ({
+      type,
+      content: [paragraph(...(value ? [text(value)] : []))],
+    });
+    assert.deepEqual(convert('| Name | Notes |\n|:---|---:|\n| a \\| b |\n| c | d |'), [
+      {
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default' },
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'Name'), cell('tableHeader', 'Notes')] },
+          { type: 'tableRow', content: [cell('tableCell', 'a | b'), cell('tableCell', '')] },
+          { type: 'tableRow', content: [cell('tableCell', 'c'), cell('tableCell', 'd')] },
+        ],
+      },
+    ]);
+  });
+
+  it('converts task lists with nested tasks and notes', () => {
+    assert.deepEqual(convert('- [ ] Write tests\n  - [x] Fixtures\n  Note\n- [X] Ship'), [
+      {
+        type: 'taskList',
+        attrs: {},
+        content: [
+          {
+            type: 'taskItem',
+            attrs: { state: 'TODO' },
+            content: [text('Write tests'), { type: 'hardBreak' }, text('Note')],
+          },
+          {
+            type: 'taskList',
+            attrs: {},
+            content: [{ type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Fixtures')] }],
+          },
+          { type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Ship')] },
+        ],
+      },
+    ]);
+  });
+
+  it('gives every task list and item a localId', () => {
+    const [list] = markdownToADF('- [ ] One').content;
+    assert.equal(typeof list.attrs?.localId, 'string');
+    assert.equal(typeof list.content?.[0].attrs?.localId, 'string');
+  });
+
+  it('converts blockquotes, turning headings into bold paragraphs', () => {
+    assert.deepEqual(convert('> ## Note\n> First line\n> - item\n>\n> > nested'), [
+      {
+        type: 'blockquote',
+        content: [
+          paragraph(text('Note', { type: 'strong' })),
+          paragraph(text('First line')),
+          { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('item'))] }] },
+          paragraph(text('nested')),
+        ],
+      },
+    ]);
+  });
+
+  it('converts horizontal rules, including spaced markers', () => {
+    assert.deepEqual(convert('Above\n\n---\n\n* * *\n\n___'), [
+      paragraph(text('Above')),
+      { type: 'rule' },
+      { type: 'rule' },
+      { type: 'rule' },
+    ]);
+  });
+
+  it('treats whole-line bold as a heading unless it is a label', () => {
+    assert.deepEqual(convert('**Summary**\n**Note:** keep it short'), [
+      { type: 'heading', attrs: { level: 3 }, content: [text('Summary')] },
+      paragraph(text('Note:', { type: 'strong' }), text(' keep it short')),
+    ]);
+  });
+
+  it('keeps fenced code verbatim', () => {
+    assert.deepEqual(convert('```\n**not bold**\n- not a list\n```'), [
+      { type: 'codeBlock', attrs: { language: 'plaintext' }, content: [text('**not bold**\n- not a list')] },
+    ]);
+  });
+});
+
+describe('markdownToADF round trip', () => {
+  for (const fixture of GEMINI_OUTPUTS) {
+    it(`renders the ${fixture.name} output back to equivalent Markdown`, () => {
+      assert.equal(adfToMarkdown(markdownToADF(fixture.markdown)), fixture.expected);
+    });
+
+    it(`is stable on a second pass for the ${fixture.name} output`, () => {
+      assert.deepEqual(convert(fixture.expected), convert(fixture.markdown));
+    });
+  }
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for the Figma link parser and design summaries, served by a stand-in API
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFigmaDesign, parseFigmaLink } from '../lib/figma';
+
+const BASE_URL = 'https://figma.test';
+
+/**
+ * In-memory stand-in for the KV namespace (get/put only)
+ */
+function memoryKV(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string, type?: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+  } as unknown as KVNamespace;
+}
+
+const FILE = {
+  name: 'Checkout',
+  document: {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: [
+      {
+        id: '0:1',
+        name: 'Page 1',
+        type: 'CANVAS',
+        children: [
+          { id: '1:1', name: 'Cart', type: 'FRAME' },
+          { id: '1:2', name: 'Payment', type: 'FRAME' },
+        ],
+      },
+    ],
+  },
+};
+
+const NODE = {
+  name: 'Checkout',
+  nodes: {
+    '1:2': {
+      document: {
+        id: '1:2',
+        name: 'Payment',
+        type: 'FRAME',
+        children: [
+          { id: '2:1', name: 'Title', type: 'TEXT', characters: '  Pay   now ' },
+          { id: '2:2', name: 'Title copy', type: 'TEXT', characters: 'Pay now' },
+          { id: '2:3', name: 'Empty', type: 'TEXT', characters: '   ' },
+          { id: '2:4', name: 'Nested', type: 'FRAME', children: [{ id: '3:1', name: 'Card', type: 'FRAME' }] },
+          {
+            id: '2:5',
+            name: 'Button instance',
+            type: 'INSTANCE',
+            componentId: 'c:1',
+            children: [{ id: '4:1', name: 'Label', type: 'TEXT', characters: 'Inside the component' }],
+          },
+          { id: '2:6', name: 'Unknown instance', type: 'INSTANCE', componentId: 'c:9' },
+        ],
+      },
+      components: { 'c:1': { name: 'Button/Primary' } },
+    },
+  },
+};
+
+describe('parseFigmaLink', () => {
+  it('reads the file key from file, design and proto links', () => {
+    assert.deepEqual(parseFigmaLink('https://www.figma.com/file/AbC123/Checkout'), { fileKey: 'AbC123' });
+    assert.deepEqual(parseFigmaLink('https://figma.com/design/AbC123/Checkout?t=x'), { fileKey: 'AbC123' });
+    assert.deepEqual(parseFigmaLink('https://www.figma.com/proto/AbC123/Checkout'), { fileKey: 'AbC123' });
+  });
+
+  it('converts the URL node ID to the API form', () => {
+    assert.deepEqual(parseFigmaLink('https://www.figma.com/design/AbC123/Checkout?node-id=12-345'), {
+      fileKey: 'AbC123',
+      nodeId: '12:345',
+    });
+  });
+
+  it('rejects other hosts, paths and malformed URLs', () => {
+    assert.equal(parseFigmaLink('https://notfigma.com/file/AbC123'), null);
+    assert.equal(parseFigmaLink('https://www.figma.com/community/file/123'), null);
+    assert.equal(parseFigmaLink('figma.com/file/AbC123'), null);
+  });
+});
+
+describe('getFigmaDesign', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: string[];
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requests.push(url);
+      if (url === `${BASE_URL}/v1/files/AbC123?depth=2`) {
+        return Response.json(FILE);
+      }
+      if (url === `${BASE_URL}/v1/files/AbC123/nodes?ids=1%3A2`) {
+        return Response.json(NODE);
+      }
+      if (url === `${BASE_URL}/v1/files/AbC123/nodes?ids=9%3A9`) {
+        return Response.json({ name: 'Checkout', nodes: { '9:9': null } });
+      }
+      return new Response('Not found', { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const env = () => ({ FIGMA_API_TOKEN: 'token', FIGMA_API_BASE_URL: `${BASE_URL}/`, STATE: memoryKV() });
+
+  it('reads a whole file two levels deep and lists its screens', async () => {
+    const design = await getFigmaDesign('https://www.figma.com/file/AbC123/Checkout', env());
+
+    assert.deepEqual(requests, [`${BASE_URL}/v1/files/AbC123?depth=2`]);
+    assert.deepEqual(design, { fileName: 'Checkout', frames: ['Cart', 'Payment'], components: [], texts: [] });
+  });
+
+  it('fetches only the linked node and summarizes its texts and component instances', async () => {
+    const design = await getFigmaDesign('https://www.figma.com/design/AbC123/Checkout?node-id=1-2', env());
+
+    assert.deepEqual(requests, [`${BASE_URL}/v1/files/AbC123/nodes?ids=1%3A2`]);
+    assert.deepEqual(design, {
+      fileName: 'Checkout',
+      nodeName: 'Payment',
+      frames: ['Payment'],
+      components: ['Button/Primary', 'Unknown instance'],
+      texts: ['Pay now'],
+    });
+  });
+
+  it('serves repeated reads from the cache', async () => {
+    const cached = env();
+    await getFigmaDesign('https://www.figma.com/file/AbC123/Checkout', cached);
+    await getFigmaDesign('https://www.figma.com/file/AbC123/Checkout', cached);
+
+    assert.equal(requests.length, 1);
+  });
+
+  it('throws on API errors and missing nodes', async () => {
+    await assert.rejects(getFigmaDesign('https://www.figma.com/file/Missing/x', env()), /Figma API error: 404/);
+    await assert.rejects(
+      getFigmaDesign('https://www.figma.com/design/AbC123/Checkout?node-id=9-9', env()),
+      /Figma node 9:9 not found in file AbC123/
+    );
+    await assert.rejects(getFigmaDesign('https://example.com/file/AbC123', env()), /Not a Figma file link/);
+  });
+});
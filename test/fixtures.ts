@@ -0,0 +1,98 @@
+/**
+ * Sample model outputs used by the ADF round-trip tests
+ * Each pair is the Markdown as generated and the Markdown expected back
+ * after converting it to ADF and rendering the ADF again.
+ */
+
+export interface RoundTripFixture {
+  name: string;
+  markdown: string;
+  expected: string;
+}
+
+export const GEMINI_OUTPUTS: RoundTripFixture[] = [
+  {
+    name: 'backend subtask',
+    markdown: `**Overview**
+
+Add an endpoint that returns the order history for the signed-in customer.
+See [API guidelines](https://example.com/api) for naming.
+
+**Implementation Steps**
+
+1. Add \`GET /api/orders\` to the orders router
+2. Query the \`orders\` table by customer ID:
+   - Sort by \`created_at\` descending
+   - Page with \`limit\` and \`cursor\`
+3. Return **only** the fields the UI needs
+
+**Acceptance Criteria**
+
+- [ ] Returns \`200\` with an empty list for new customers
+- [x] Rejects anonymous requests with \`401\`
+
+| Field | Type | Notes |
+| --- | --- | --- |
+| id | string | Order ID |
+| total | number | In cents |
+
+\`\`\`ts
+router.get('/api/orders', listOrders);
+\`\`\`
+
+---
+
+> Generated draft - review before starting`,
+    expected: `### Overview
+
+Add an endpoint that returns the order history for the signed-in customer.
+See [API guidelines](https://example.com/api) for naming.
+
+### Implementation Steps
+
+1. Add \`GET /api/orders\` to the orders router
+2. Query the \`orders\` table by customer ID:
+   - Sort by \`created_at\` descending
+   - Page with \`limit\` and \`cursor\`
+3. Return **only** the fields the UI needs
+
+### Acceptance Criteria
+
+- [ ] Returns \`200\` with an empty list for new customers
+- [x] Rejects anonymous requests with \`401\`
+
+| Field | Type | Notes |
+| --- | --- | --- |
+| id | string | Order ID |
+| total | number | In cents |
+
+\`\`\`ts
+router.get('/api/orders', listOrders);
+\`\`\`
+
+---
+
+> Generated draft - review before starting`,
+  },
+  {
+    name: 'frontend subtask',
+    markdown: `## Order History Page
+
+* Show orders in a table
+    * Newest first
+    * Empty state when there are none
+* Link each order to https://shop.example.com/orders/{id}
+
+*Design:* see the Figma frame.
+~~Old pagination~~ is replaced by infinite scroll.`,
+    expected: `## Order History Page
+
+- Show orders in a table
+  - Newest first
+  - Empty state when there are none
+- Link each order to https://shop.example.com/orders/{id}
+
+*Design:* see the Figma frame.
+~~Old pagination~~ is replaced by infinite scroll.`,
+  },
+];